@@ -1,7 +1,6 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI } from "@google/genai";
 
 // --- WEB SPEECH API TYPES ---
 interface SpeechRecognitionAlternative {
@@ -29,6 +28,7 @@ interface SpeechRecognition extends EventTarget {
   lang: string;
   continuous: boolean;
   interimResults: boolean;
+  maxAlternatives: number;
   onresult: (event: SpeechRecognitionEvent) => void;
   onstart: () => void;
   onerror: (event: SpeechRecognitionErrorEvent) => void;
@@ -46,24 +46,49 @@ declare global {
 
 // --- TYPES ---
 type InterpretingMode = "Vortragsdolmetschen" | "Simultandolmetschen" | "Shadowing" | "Gesprächsdolmetschen" | "Stegreifübersetzen";
-type Language = "Deutsch" | "Englisch" | "Russisch" | "Spanisch" | "Französisch";
-type SourceTextType = "ai" | "upload";
+type Language = typeof LANGUAGE_REGISTRY[number]['name'];
+type SourceTextType = "ai" | "upload" | "audio";
+type RecognitionBackendId = 'browser' | 'whisper';
 type QALength = "1-3 Sätze" | "2-4 Sätze" | "3-5 Sätze" | "4-6 Sätze";
 type SpeechLength = "Kurz" | "Mittel" | "Prüfung";
 type VoiceQuality = "Standard" | "Premium";
 type PracticeAreaTab = 'original' | 'transcript' | 'feedback' | 'practice' | 'results';
+type ExerciseState = 'idle' | 'generating' | 'reviewing' | 'preparing' | 'ready' | 'error';
+// Keep in sync with AI_TASKS in server/config.ts.
+type AiTask = 'generation' | 'dialogue' | 'lengthAdjustment' | 'punctuation' | 'feedback' | 'glossary' | 'transcription' | 'alignment';
 
 
 interface DialogueSegment {
     type: 'Frage' | 'Antwort';
     text: string;
     lang: Language;
+    speaker?: string; // Set for imported scripts that name their speakers.
 }
 
 interface StructuredDialogueResult {
   originalSegment: DialogueSegment;
   userInterpretation: string;
   interpretationLang: Language;
+  recognition?: TranscriptSegment[]; // as recognized, before punctuation
+}
+
+// Difficulty is described along fixed dimensions instead of free text in the
+// topic field, so that the same level can be requested again later.
+interface DifficultyProfile {
+  informationDensity: 'niedrig' | 'mittel' | 'hoch';
+  numbersAndNames: 'selten' | 'gelegentlich' | 'häufig';
+  register: 'informell' | 'neutral' | 'formell' | 'fachsprachlich';
+  sentenceComplexity: 'einfach' | 'mittel' | 'komplex';
+  idiomaticLanguage: 'keine' | 'wenig' | 'viel';
+  speechRate: 'langsam' | 'normal' | 'schnell';
+}
+
+// Consecutive speeches can be played in segments, with a pause for the
+// rendition after each one.
+interface ConsecutiveSegmentation {
+  unit: 'none' | 'paragraph' | 'sentences' | 'duration';
+  sentenceCount: number; // for unit 'sentences'
+  seconds: number; // for unit 'duration', and for recordings, which have no sentence map
 }
 
 interface Settings {
@@ -75,7 +100,25 @@ interface Settings {
   qaLength: QALength;
   speechLength: SpeechLength;
   voiceQuality: VoiceQuality;
+  voices: Partial<Record<Language, string>>; // chosen voice per language; otherwise the registry voice of voiceQuality
   playbackRate: number;
+  difficulty: DifficultyProfile;
+  segmentation: ConsecutiveSegmentation;
+  recognitionBackend: RecognitionBackendId;
+}
+
+interface ExerciseRecord {
+  id: string;
+  createdAt: string;
+  settings: Settings;
+  text: string;
+  dialogue: DialogueSegment[];
+}
+
+interface LengthTarget {
+    min: number;
+    max: number;
+    unit: 'words' | 'chars';
 }
 
 interface ErrorAnalysisItem {
@@ -86,177 +129,3641 @@ interface ErrorAnalysisItem {
     type: "Inhalt" | "Sprache";
 }
 
+type TermStatus = "verwendet" | "Synonym" | "ausgelassen" | "nicht im Original";
+
+interface TermCheck {
+    source: string;
+    expected: string;
+    used: string;
+    status: TermStatus;
+    comment: string;
+}
+
+interface TerminologyReport {
+    rating: number;
+    summary: string;
+    terms: TermCheck[];
+}
+
+interface DeliveryMetrics {
+    words: number;
+    /** From the first to the last recognized word of each take; null when the recognizer reported no timings. */
+    speakingSeconds: number | null;
+    wordsPerMinute: number | null;
+    /** Silences between recognized words of at least LONG_PAUSE_SECONDS, in seconds. */
+    longPauses: number[];
+    fillers: { word: string; count: number }[];
+    /** Restarts and correction phrases as they were recognized. */
+    selfCorrections: string[];
+}
+
+interface DeliveryReport {
+    rating: number;
+    summary: string;
+    metrics: DeliveryMetrics;
+}
+
+type AlignmentStatus = "korrekt" | "Auslassung" | "Verzerrung" | "Hinzufügung";
+
+/** A sentence of the original and the part of the interpretation that renders it. */
+interface AlignedPair {
+    /** 1-based number of the original sentence; null for an addition. */
+    sentence: number | null;
+    original: string;
+    /** Empty when the sentence was omitted. */
+    interpretation: string;
+    status: AlignmentStatus;
+    explanation: string;
+}
+
 interface Feedback {
     contentRating: number;
     languageRating: number;
     contentSummary: string;
     languageSummary: string;
     errorAnalysis: ErrorAnalysisItem[];
+    // Only present when the exercise has a glossary.
+    terminology?: TerminologyReport;
+    // Only present when the interpretation was recognized from speech.
+    delivery?: DeliveryReport;
+}
+
+interface GlossaryEntry {
+    source: string;
+    target: string;
+    note: string;
+}
+
+interface SourceAudio {
+    url: string; // object URL of the uploaded recording
+    fileName: string;
+    isTranscribed: boolean; // reference text was transcribed by the model rather than uploaded
+}
+
+interface Glossary {
+    id?: string;
+    topic: string;
+    sourceLang: Language;
+    targetLang: Language;
+    entries: GlossaryEntry[];
+    updatedAt?: string;
+}
+
+interface LanguageDefinition {
+    /** German name, shown in the settings and used as the language's key. */
+    name: string;
+    /** How prompts refer to the language when the name alone is ambiguous. */
+    promptName?: string;
+    /** BCP 47 locale for speech recognition. */
+    locale: string;
+    tts: { languageCode: string; voices: Record<VoiceQuality, string> };
+    /** Speaking rate of the TTS voices at 1.0x in words per minute (characters for Chinese, see countWords). */
+    wordsPerMinute: number;
+    direction: 'ltr' | 'rtl';
+    /** Overrides the sight translation length for scripts that are much denser than Latin ones. */
+    sightTranslationTarget?: LengthTarget;
+    /** What `countWords` counts in this script, as named in the length prompts; "Wörter" if not set. */
+    wordUnit?: string;
+    /**
+     * Hesitation sounds counted in the delivery metrics. Every occurrence
+     * counts, and in Han script even inside words, so nothing that is also an
+     * ordinary word ("ну", "那个") belongs here.
+     */
+    fillers: readonly string[];
+    /** Phrases that introduce a self-correction, e.g. "I mean"; apologies like "sorry" also occur in the speech itself. */
+    corrections: readonly string[];
+    /** Words right before or after a four-digit number that make it a year ("im Jahr 1990", "1990 году"); month names need no entry. */
+    yearCues: { before: readonly string[]; after: readonly string[] };
 }
 
 // --- CONSTANTS & UTILS ---
-const LANGUAGES: Language[] = ["Deutsch", "Englisch", "Russisch", "Spanisch", "Französisch"];
+
+// Everything language-specific lives in this registry: the settings dropdowns,
+// recognition locales, TTS voices, speaking rates, filler words and prompt
+// names are all derived from it, so a new language is a new entry here.
+const LANGUAGE_REGISTRY = [
+    {
+        name: "Deutsch", locale: "de-DE", tts: { languageCode: "de-DE", voices: { "Standard": "de-DE-Standard-A", "Premium": "de-DE-Wavenet-F" } }, wordsPerMinute: 115, direction: "ltr",
+        fillers: ["äh", "ähm", "öh", "öhm", "hm", "hmm"], corrections: ["ich meine"],
+        yearCues: { before: ["im Jahr", "im Jahre", "Jahr", "seit", "Anfang", "Mitte", "Ende"], after: [] },
+    },
+    {
+        name: "Englisch", locale: "en-US", tts: { languageCode: "en-US", voices: { "Standard": "en-US-Standard-C", "Premium": "en-US-Wavenet-F" } }, wordsPerMinute: 145, direction: "ltr",
+        fillers: ["uh", "um", "uhm", "er", "erm", "hmm"], corrections: ["I mean", "or rather", "let me rephrase"],
+        yearCues: { before: ["in", "since", "until", "year"], after: [] },
+    },
+    {
+        name: "Russisch", locale: "ru-RU", tts: { languageCode: "ru-RU", voices: { "Standard": "ru-RU-Standard-A", "Premium": "ru-RU-Wavenet-D" } }, wordsPerMinute: 105, direction: "ltr",
+        fillers: ["э", "э-э", "ээ", "эм", "мм"], corrections: ["я имею в виду", "вернее"],
+        yearCues: { before: [], after: ["год", "году", "года", "г."] },
+    },
+    {
+        name: "Spanisch", locale: "es-ES", tts: { languageCode: "es-ES", voices: { "Standard": "es-ES-Standard-A", "Premium": "es-ES-Wavenet-B" } }, wordsPerMinute: 150, direction: "ltr",
+        fillers: ["eh", "ehm", "em", "mm", "mmm"], corrections: ["o sea", "quiero decir", "mejor dicho"],
+        yearCues: { before: ["en el año", "el año", "año", "en", "desde"], after: [] },
+    },
+    {
+        name: "Französisch", locale: "fr-FR", tts: { languageCode: "fr-FR", voices: { "Standard": "fr-FR-Standard-A", "Premium": "fr-FR-Wavenet-E" } }, wordsPerMinute: 140, direction: "ltr",
+        fillers: ["euh", "heu", "hum", "ben", "bah"], corrections: ["je veux dire", "ou plutôt"],
+        yearCues: { before: ["en", "depuis", "l'année", "année"], after: [] },
+    },
+    {
+        name: "Italienisch", locale: "it-IT", tts: { languageCode: "it-IT", voices: { "Standard": "it-IT-Standard-A", "Premium": "it-IT-Wavenet-A" } }, wordsPerMinute: 140, direction: "ltr",
+        fillers: ["ehm", "eh", "mmm", "ehmm"], corrections: ["cioè", "volevo dire"],
+        yearCues: { before: ["nel", "dal", "nell'anno", "anno"], after: [] },
+    },
+    {
+        name: "Polnisch", locale: "pl-PL", tts: { languageCode: "pl-PL", voices: { "Standard": "pl-PL-Standard-A", "Premium": "pl-PL-Wavenet-A" } }, wordsPerMinute: 110, direction: "ltr",
+        fillers: ["yyy", "yy", "eee", "ee", "hmm", "mmm"], corrections: ["to znaczy", "chciałem powiedzieć", "chciałam powiedzieć"],
+        yearCues: { before: [], after: ["roku", "rok", "r."] },
+    },
+    {
+        name: "Chinesisch", promptName: "Chinesisch (Mandarin, vereinfachte Schriftzeichen)", locale: "zh-CN",
+        tts: { languageCode: "cmn-CN", voices: { "Standard": "cmn-CN-Standard-A", "Premium": "cmn-CN-Wavenet-A" } },
+        wordsPerMinute: 230, direction: "ltr", sightTranslationTarget: { min: 450, max: 500, unit: 'chars' }, wordUnit: "Zeichen",
+        fillers: ["嗯", "呃"], corrections: ["我是说"],
+        yearCues: { before: [], after: ["年"] },
+    },
+    {
+        name: "Arabisch", promptName: "Arabisch (modernes Hocharabisch)", locale: "ar-SA",
+        tts: { languageCode: "ar-XA", voices: { "Standard": "ar-XA-Standard-A", "Premium": "ar-XA-Wavenet-A" } },
+        wordsPerMinute: 105, direction: "rtl",
+        fillers: ["امم", "اممم", "إمم"], corrections: ["أقصد", "أعني"],
+        yearCues: { before: ["عام", "العام", "سنة"], after: [] },
+    },
+] as const satisfies readonly LanguageDefinition[];
+
+const LANGUAGES: Language[] = LANGUAGE_REGISTRY.map(language => language.name);
+
+const getLanguage = (lang: Language): LanguageDefinition =>
+    LANGUAGE_REGISTRY.find(language => language.name === lang) ?? LANGUAGE_REGISTRY[0];
+
+const getPromptLanguageName = (lang: Language) => getLanguage(lang).promptName ?? lang;
+
+const getTextDirection = (lang: Language) => getLanguage(lang).direction;
+
 const MODES: InterpretingMode[] = ["Vortragsdolmetschen", "Simultandolmetschen", "Shadowing", "Gesprächsdolmetschen", "Stegreifübersetzen"];
+const MONOLOGUE_MODES: InterpretingMode[] = ["Vortragsdolmetschen", "Simultandolmetschen", "Shadowing"];
 const QA_LENGTHS: QALength[] = ["1-3 Sätze", "2-4 Sätze", "3-5 Sätze", "4-6 Sätze"];
 const SPEECH_LENGTHS: SpeechLength[] = ["Kurz", "Mittel", "Prüfung"];
 
-const SPEECH_LENGTH_TARGETS: Record<SpeechLength, { min: number; max: number }> = {
-  "Kurz": { min: 1200, max: 1600 },
-  "Mittel": { min: 1800, max: 2200 },
-  "Prüfung": { min: 3300, max: 3700 },
+const SEGMENTATION_UNITS: Record<ConsecutiveSegmentation['unit'], string> = {
+    none: "Ganze Rede am Stück",
+    paragraph: "Nach Absätzen",
+    sentences: "Nach Anzahl der Sätze",
+    duration: "Nach Dauer",
+};
+
+// Speech lengths are defined as speaking time, like in the exam regulations.
+const SPEECH_DURATION_TARGETS: Record<SpeechLength, { minMinutes: number; maxMinutes: number }> = {
+  "Kurz": { minMinutes: 1.5, maxMinutes: 2 },
+  "Mittel": { minMinutes: 2.5, maxMinutes: 3 },
+  "Prüfung": { minMinutes: 4, maxMinutes: 5 },
+};
+
+// Sight translation texts are written texts of about one standard page.
+const SIGHT_TRANSLATION_TARGET: LengthTarget = { min: 1280, max: 1420, unit: 'chars' };
+
+const DIFFICULTY_DIMENSIONS: { [K in keyof DifficultyProfile]: { label: string; levels: DifficultyProfile[K][] } } = {
+    informationDensity: { label: "Informationsdichte", levels: ["niedrig", "mittel", "hoch"] },
+    numbersAndNames: { label: "Zahlen und Eigennamen", levels: ["selten", "gelegentlich", "häufig"] },
+    register: { label: "Register", levels: ["informell", "neutral", "formell", "fachsprachlich"] },
+    sentenceComplexity: { label: "Satzbau", levels: ["einfach", "mittel", "komplex"] },
+    idiomaticLanguage: { label: "Idiomatik", levels: ["keine", "wenig", "viel"] },
+    speechRate: { label: "Sprechtempo", levels: ["langsam", "normal", "schnell"] },
+};
+
+const DIFFICULTY_PRESETS: Record<string, DifficultyProfile> = {
+    "Einsteiger": { informationDensity: "niedrig", numbersAndNames: "selten", register: "neutral", sentenceComplexity: "einfach", idiomaticLanguage: "keine", speechRate: "langsam" },
+    "Fortgeschritten": { informationDensity: "mittel", numbersAndNames: "gelegentlich", register: "formell", sentenceComplexity: "mittel", idiomaticLanguage: "wenig", speechRate: "normal" },
+    "Prüfungsniveau": { informationDensity: "hoch", numbersAndNames: "häufig", register: "formell", sentenceComplexity: "komplex", idiomaticLanguage: "viel", speechRate: "schnell" },
+};
+
+// The speech rate of a profile sets the playback speed of the TTS audio.
+const SPEECH_RATE_PLAYBACK: Record<DifficultyProfile['speechRate'], number> = {
+    "langsam": 0.9,
+    "normal": 1.0,
+    "schnell": 1.2,
+};
+
+const DIFFICULTY_PROMPT_HINTS: { [K in Exclude<keyof DifficultyProfile, 'speechRate'>]: Record<DifficultyProfile[K], string> } = {
+    informationDensity: {
+        "niedrig": "wenige Kernaussagen, die wiederholt und mit Beispielen erläutert werden",
+        "mittel": "eine klare Argumentation mit einigen Details und etwas Redundanz",
+        "hoch": "viele Fakten und Argumente auf engem Raum, kaum Wiederholungen",
+    },
+    numbersAndNames: {
+        "selten": "höchstens zwei oder drei Zahlen oder Eigennamen im ganzen Text",
+        "gelegentlich": "etwa eine Zahl oder ein Eigenname pro Absatz",
+        "häufig": "in fast jedem Satz Zahlen, Daten, Prozentangaben, Namen von Personen, Organisationen oder Orten",
+    },
+    register: {
+        "informell": "umgangssprachlich und persönlich",
+        "neutral": "sachlich und allgemeinverständlich",
+        "formell": "gehoben, wie bei einer offiziellen Rede",
+        "fachsprachlich": "mit der Fachterminologie des Themas, für ein Fachpublikum",
+    },
+    sentenceComplexity: {
+        "einfach": "kurze Hauptsätze, kaum Nebensätze",
+        "mittel": "abwechslungsreicher Satzbau mit einzelnen Nebensätzen",
+        "komplex": "lange Satzgefüge mit Einschüben und verschachtelten Nebensätzen",
+    },
+    idiomaticLanguage: {
+        "keine": "keine Redewendungen oder Metaphern",
+        "wenig": "vereinzelte gängige Redewendungen",
+        "viel": "zahlreiche Redewendungen, Metaphern und Sprachbilder",
+    },
+};
+
+/** Prompt section that tells the model how difficult the source text should be. */
+const describeDifficultyForPrompt = (difficulty: DifficultyProfile) =>
+    `Schwierigkeitsprofil des Textes:
+- Informationsdichte: ${DIFFICULTY_PROMPT_HINTS.informationDensity[difficulty.informationDensity]}
+- Zahlen und Eigennamen: ${DIFFICULTY_PROMPT_HINTS.numbersAndNames[difficulty.numbersAndNames]}
+- Register: ${DIFFICULTY_PROMPT_HINTS.register[difficulty.register]}
+- Satzbau: ${DIFFICULTY_PROMPT_HINTS.sentenceComplexity[difficulty.sentenceComplexity]}
+- Idiomatik: ${DIFFICULTY_PROMPT_HINTS.idiomaticLanguage[difficulty.idiomaticLanguage]}`;
+
+const findDifficultyPreset = (difficulty: DifficultyProfile) =>
+    Object.keys(DIFFICULTY_PRESETS).find(name =>
+        (Object.keys(difficulty) as (keyof DifficultyProfile)[]).every(key => DIFFICULTY_PRESETS[name][key] === difficulty[key]));
+
+const summarizeDifficulty = (difficulty: DifficultyProfile) =>
+    findDifficultyPreset(difficulty) ?? (Object.keys(DIFFICULTY_DIMENSIONS) as (keyof DifficultyProfile)[])
+        .map(key => `${DIFFICULTY_DIMENSIONS[key].label}: ${difficulty[key]}`).join(', ');
+
+// --- BACKEND API & AUTH ---
+interface AuthUser {
+    id: string;
+    name: string;
+    expiresAt: string | null;
+}
+
+interface AuthSession {
+    token: string;
+    expiresAt: string;
+    user: AuthUser;
+}
+
+const SESSION_STORAGE_KEY = 'dolmetsch-trainer.session';
+const SESSION_EXPIRED_EVENT = 'dolmetsch-trainer:session-expired';
+
+class ApiError extends Error {
+    constructor(public status: number, message: string, public code?: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+const loadStoredSession = (): AuthSession | null => {
+    try {
+        const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+        if (!raw) return null;
+        const session = JSON.parse(raw) as AuthSession;
+        return Date.parse(session.expiresAt) > Date.now() ? session : null;
+    } catch {
+        return null;
+    }
+};
+
+const storeSession = (session: AuthSession | null) => {
+    if (session) {
+        localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } else {
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+};
+
+// Calls the backend with the stored session token. A 401 means the session has
+// expired or the access code was revoked, so the App is told to log out.
+const apiFetch = async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+    const session = loadStoredSession();
+    const headers = new Headers(init.headers);
+    if (init.body && !headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json');
+    }
+    if (session) {
+        headers.set('Authorization', `Bearer ${session.token}`);
+    }
+
+    const response = await fetch(path, { ...init, headers });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        if (response.status === 401 && session) {
+            storeSession(null);
+            window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+        }
+        throw new ApiError(response.status, data.error || `Request failed with status ${response.status}`, data.code);
+    }
+    return data as T;
+};
+
+const login = async (name: string, code: string): Promise<AuthSession> => {
+    const session = await apiFetch<AuthSession>('/api/auth/login', {
+        method: 'POST',
+        body: JSON.stringify({ name, code }),
+    });
+    storeSession(session);
+    return session;
+};
+
+// Exercises are logged with their full settings so that their level can be
+// reproduced. Saving is best effort: a failure must not block the exercise.
+const saveExercise = async (exercise: Omit<ExerciseRecord, 'id' | 'createdAt'>) => {
+    try {
+        await apiFetch('/api/exercises', { method: 'POST', body: JSON.stringify(exercise) });
+    } catch (error) {
+        console.warn("Saving the exercise failed:", error);
+    }
+};
+
+const listExercises = async (): Promise<ExerciseRecord[]> => {
+    const { exercises } = await apiFetch<{ exercises: ExerciseRecord[] }>('/api/exercises');
+    return exercises;
+};
+
+const listGlossaries = async (): Promise<Glossary[]> => {
+    const { glossaries } = await apiFetch<{ glossaries: Glossary[] }>('/api/glossaries');
+    return glossaries;
+};
+
+const saveGlossary = (glossary: Glossary): Promise<Glossary> =>
+    apiFetch<Glossary>('/api/glossaries', { method: 'PUT', body: JSON.stringify(glossary) });
+
+const logout = async () => {
+    try {
+        await apiFetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+        console.warn("Logout request failed:", error);
+    } finally {
+        storeSession(null);
+    }
+};
+
+// --- AI ERRORS & RETRIES ---
+// Every failed AI or TTS call is classified so that we only retry what can
+// succeed on a second try (rate limits, network hiccups, upstream outages) and
+// can tell the user what actually went wrong.
+
+type AiErrorKind = 'rate_limit' | 'quota' | 'auth' | 'safety' | 'network' | 'malformed_output' | 'service' | 'cancelled';
+
+class AiError extends Error {
+    constructor(public kind: AiErrorKind, message: string, public retryable = false, public cause?: unknown) {
+        super(message);
+        this.name = 'AiError';
+    }
+}
+
+interface AiRequestOptions {
+    signal?: AbortSignal;
+    retries?: number;
+    baseDelay?: number;
+}
+
+const MAX_RETRY_DELAY_MS = 16000;
+
+const AI_ERROR_MESSAGES: Record<AiErrorKind, string> = {
+    rate_limit: "Der KI-Dienst ist im Moment überlastet. Bitte warten Sie kurz und versuchen Sie es dann erneut.",
+    quota: "Ihr Tageslimit ist erreicht. Bitte versuchen Sie es morgen erneut.",
+    auth: "Ihre Sitzung ist abgelaufen. Bitte melden Sie sich erneut an.",
+    safety: "Die Anfrage wurde vom Sicherheitsfilter des KI-Dienstes blockiert. Bitte formulieren Sie Thema oder Text um.",
+    network: "Keine Verbindung zum Server. Bitte prüfen Sie Ihre Internetverbindung.",
+    malformed_output: "Die KI-Antwort hatte auch nach mehreren Versuchen kein gültiges Format. Bitte versuchen Sie es erneut.",
+    service: "Der KI-Dienst ist vorübergehend nicht verfügbar. Bitte versuchen Sie es später erneut.",
+    cancelled: "Die Anfrage wurde abgebrochen.",
+};
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const isCancellation = (error: unknown) => isAbortError(error) || (error instanceof AiError && error.kind === 'cancelled');
+
+const classifyAiError = (error: unknown): AiError => {
+    if (error instanceof AiError) return error;
+    if (isAbortError(error)) return new AiError('cancelled', AI_ERROR_MESSAGES.cancelled, false, error);
+    if (error instanceof ApiError) {
+        switch (error.code) {
+            case 'quota_exceeded': return new AiError('quota', error.message, false, error);
+            case 'rate_limited': return new AiError('rate_limit', AI_ERROR_MESSAGES.rate_limit, true, error);
+            case 'safety_blocked': return new AiError('safety', AI_ERROR_MESSAGES.safety, false, error);
+            case 'upstream_auth':
+                return new AiError('auth', "Der Server konnte sich nicht beim KI-Dienst anmelden (API-Schlüssel fehlt oder ist ungültig). Bitte wenden Sie sich an die Kursleitung.", false, error);
+            case 'upstream_rejected': return new AiError('service', AI_ERROR_MESSAGES.service, false, error);
+            case 'unsupported_input':
+                return new AiError('service', "Das eingestellte KI-Modell kann keine Audioaufnahmen verarbeiten. Bitte laden Sie ein Transkript zur Aufnahme hoch.", false, error);
+        }
+        if (error.status === 401) return new AiError('auth', AI_ERROR_MESSAGES.auth, false, error);
+        if (error.status === 429) return new AiError('rate_limit', AI_ERROR_MESSAGES.rate_limit, true, error);
+        return new AiError('service', AI_ERROR_MESSAGES.service, error.status >= 500, error);
+    }
+    // fetch() rejects with a TypeError when the server cannot be reached at all.
+    if (error instanceof TypeError) return new AiError('network', AI_ERROR_MESSAGES.network, true, error);
+    return new AiError('service', AI_ERROR_MESSAGES.service, false, error);
+};
+
+const describeAiError = (error: unknown) => classifyAiError(error).message;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** Exponential backoff with "equal jitter": half of the delay is fixed, half is random. */
+const getBackoffDelay = (attempt: number, baseDelay: number) => {
+    const ceiling = Math.min(MAX_RETRY_DELAY_MS, baseDelay * 2 ** attempt);
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+const withRetry = async <T,>(label: string, request: () => Promise<T>, { signal, retries = 4, baseDelay = 1000 }: AiRequestOptions = {}): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            const aiError = classifyAiError(error);
+            if (aiError.kind === 'cancelled' || signal?.aborted) throw new AiError('cancelled', AI_ERROR_MESSAGES.cancelled, false, error);
+            console.error(`${label}: attempt ${attempt + 1} failed (${aiError.kind}):`, error);
+            if (!aiError.retryable || attempt >= retries - 1) throw aiError;
+            await sleep(getBackoffDelay(attempt, baseDelay), signal);
+        }
+    }
+};
+
+/** Returns an AbortSignal that fires when the calling component unmounts. */
+const useUnmountSignal = (): AbortSignal => {
+    const controllerRef = useRef<AbortController>(new AbortController());
+    useEffect(() => {
+        const controller = controllerRef.current;
+        return () => controller.abort();
+    }, []);
+    return controllerRef.current.signal;
+};
+
+// --- TTS AUDIO CACHE ---
+// Synthesized audio is kept in IndexedDB under a hash of everything that
+// decides how it sounds: the text or SSML, the language and the voice. Replaying
+// an exercise, reopening it in a later session or editing a single paragraph
+// then only requests audio that was never synthesized before. Once the cache
+// outgrows its limits, the least recently used entries are evicted. A browser
+// without IndexedDB or crypto.subtle simply synthesizes everything again.
+
+interface SpeechRequest {
+    text?: string;
+    ssml?: string;
+    languageCode: string;
+    voiceName: string;
+}
+
+interface CachedSpeech {
+    key: string;
+    audioContent: string;
+    /** Length of the base64 audio, counted against TTS_CACHE_MAX_BYTES. */
+    bytes: number;
+    lastUsed: number;
+}
+
+const TTS_CACHE_DB_NAME = 'dolmetsch-trainer-tts';
+const TTS_CACHE_STORE = 'speech';
+const TTS_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+const TTS_CACHE_MAX_ENTRIES = 5000;
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = transaction.onabort = () => reject(transaction.error);
+});
+
+let ttsCacheDb: Promise<IDBDatabase | null> | null = null;
+
+const openTtsCache = () => {
+    ttsCacheDb ??= (async () => {
+        const request = indexedDB.open(TTS_CACHE_DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(TTS_CACHE_STORE, { keyPath: 'key' }).createIndex('lastUsed', 'lastUsed');
+        };
+        return requestToPromise(request);
+    })().catch(error => {
+        console.warn("TTS cache is not available:", error);
+        return null;
+    });
+    return ttsCacheDb;
+};
+
+const getSpeechCacheKey = async (request: SpeechRequest) => {
+    const { text = null, ssml = null, languageCode, voiceName } = request;
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify([text, ssml, languageCode, voiceName])));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Walks the entries from most to least recently used and deletes everything beyond the limits. */
+const evictLeastRecentlyUsed = (store: IDBObjectStore) => {
+    let bytes = 0;
+    let entries = 0;
+    const cursorRequest = store.index('lastUsed').openCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const entry = cursor.value as CachedSpeech;
+        bytes += entry.bytes;
+        entries++;
+        if (bytes > TTS_CACHE_MAX_BYTES || entries > TTS_CACHE_MAX_ENTRIES) cursor.delete();
+        cursor.continue();
+    };
+};
+
+/** Returns the cached audio for a request and marks it as used, or null on a miss. */
+const readCachedSpeech = async (request: SpeechRequest): Promise<string | null> => {
+    const db = await openTtsCache();
+    if (!db || !crypto.subtle) return null;
+    try {
+        const key = await getSpeechCacheKey(request);
+        const transaction = db.transaction(TTS_CACHE_STORE, 'readwrite');
+        const store = transaction.objectStore(TTS_CACHE_STORE);
+        const entry = await requestToPromise<CachedSpeech | undefined>(store.get(key));
+        if (entry) store.put({ ...entry, lastUsed: Date.now() });
+        await transactionDone(transaction);
+        return entry?.audioContent ?? null;
+    } catch (error) {
+        console.warn("Reading the TTS cache failed:", error);
+        return null;
+    }
+};
+
+const writeCachedSpeech = async (request: SpeechRequest, audioContent: string) => {
+    const db = await openTtsCache();
+    if (!db || !crypto.subtle) return;
+    try {
+        const key = await getSpeechCacheKey(request);
+        const transaction = db.transaction(TTS_CACHE_STORE, 'readwrite');
+        const store = transaction.objectStore(TTS_CACHE_STORE);
+        const entry: CachedSpeech = { key, audioContent, bytes: audioContent.length, lastUsed: Date.now() };
+        store.put(entry);
+        evictLeastRecentlyUsed(store);
+        await transactionDone(transaction);
+    } catch (error) {
+        console.warn("Writing the TTS cache failed:", error);
+    }
+};
+
+// --- API HELPERS ---
+// Gemini and Text-to-Speech are called through the backend proxy (server/proxy.ts),
+// which holds the API key and enforces the per-user quotas. The task decides
+// which LLM provider and model answer the prompt (see server/providers.ts).
+const generateContentWithRetry = async (prompt: string, task: AiTask, options: AiRequestOptions = {}): Promise<string> => {
+    return withRetry(`AI request (${task})`, async () => {
+        const { text } = await apiFetch<{ text: string }>('/api/ai/generate', {
+            method: 'POST',
+            body: JSON.stringify({ prompt, task }),
+            signal: options.signal,
+        });
+        return text;
+    }, options);
+};
+
+const punctuateTextWithAI = async (rawText: string, lang: Language, signal?: AbortSignal): Promise<string> => {
+    if (!rawText || rawText.trim() === '') {
+        return rawText;
+    }
+    const prompt = `Füge dem folgenden Text auf ${getPromptLanguageName(lang)} die korrekte Zeichensetzung (Punkte, Kommas, Fragezeichen usw.) hinzu. Ändere nicht die Wörter oder die Reihenfolge der Sätze. Gib NUR den vollständigen Text mit Zeichensetzung zurück.
+
+Originaltext:
+"""
+${rawText}
+"""`;
+
+    const punctuatedText = await generateContentWithRetry(prompt, 'punctuation', { signal });
+    return punctuatedText.trim().replace(/^["']|["']$/g, '');
+};
+
+/** Synthesizes speech through the backend, or takes it from the TTS cache when the same request was made before. */
+const synthesizeSpeechGoogleCloud = async (text: string, voice: TtsVoice, signal?: AbortSignal, pauseAfterMs = 0) => {
+    const input = voice.supportsSsml
+        ? { ssml: buildSpeechSsml(text, voice.languageCode, pauseAfterMs) }
+        : { text: stripEmphasisMarkers(text) };
+    const request: SpeechRequest = { ...input, languageCode: voice.languageCode, voiceName: voice.name };
+
+    const cached = await readCachedSpeech(request);
+    if (cached) return cached;
+
+    const data = await withRetry('Speech synthesis', () => apiFetch<{ audioContent: string }>('/api/tts/synthesize', {
+        method: 'POST',
+        body: JSON.stringify(request),
+        signal,
+    }), { signal });
+    writeCachedSpeech(request, data.audioContent);
+    return data.audioContent;
+};
+
+// Chinese is written without spaces, so every Han character counts as one
+// word; its speaking rate in the language registry is given in characters.
+const countWords = (text: string) => text.match(/\p{Script=Han}|[^\s\p{Script=Han}]*[\p{L}\p{N}][^\s\p{Script=Han}]*/gu)?.length ?? 0;
+
+const measureLength = (text: string, unit: LengthTarget['unit']) => unit === 'words' ? countWords(text) : text.length;
+
+const formatDuration = (seconds: number) => {
+    const total = Math.round(seconds);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * The word budget of a speech: its target speaking time at the chosen playback
+ * rate, converted with the speaking rate of the language. A rate measured on
+ * the synthesized audio can be passed in to replace the estimate.
+ */
+const getSpeechWordBudget = (speechLength: SpeechLength, lang: Language, playbackRate: number, wordsPerMinute = getLanguage(lang).wordsPerMinute): LengthTarget => {
+    const { minMinutes, maxMinutes } = SPEECH_DURATION_TARGETS[speechLength];
+    const effectiveRate = wordsPerMinute * playbackRate;
+    return { min: Math.round(minMinutes * effectiveRate), max: Math.round(maxMinutes * effectiveRate), unit: 'words' };
+};
+
+// Han script is counted per character, so a Chinese word budget is a character budget.
+const getLengthUnitLabel = (unit: LengthTarget['unit'], lang: Language) =>
+    unit === 'chars' ? 'Zeichen' : getLanguage(lang).wordUnit ?? 'Wörter';
+
+const getLengthTarget = (settings: Settings, wordsPerMinute?: number): LengthTarget =>
+    settings.mode === 'Stegreifübersetzen'
+        ? getLanguage(settings.sourceLang).sightTranslationTarget ?? SIGHT_TRANSLATION_TARGET
+        : getSpeechWordBudget(settings.speechLength, settings.sourceLang, settings.playbackRate, wordsPerMinute);
+
+// A full stop only ends a sentence before whitespace, so "1.500" or "3.5" stay
+// intact; CJK punctuation ends a sentence without a following space.
+const splitSentences = (text: string): string[] =>
+    text.split(/(?<=[.!?…؟]["»«“”」]?)\s+|(?<=[。！？]["»«“”」]?)/).map(x => x.trim()).filter(Boolean);
+
+/** Splits a text into paragraphs; one-block texts are grouped into chunks of three sentences. */
+const splitParagraphs = (text: string): string[] => {
+    let paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+    if (paragraphs.length < 3) {
+        paragraphs = text.split(/\n/).map(p => p.trim()).filter(Boolean);
+    }
+    if (paragraphs.length < 3) {
+        const sentences = splitSentences(text);
+        paragraphs = [];
+        for (let i = 0; i < sentences.length; i += 3) {
+            paragraphs.push(sentences.slice(i, i + 3).join(' '));
+        }
+    }
+    return paragraphs;
+};
+
+/**
+ * Brings a generated text into its length target by editing one paragraph at a
+ * time (expanding, shortening, inserting or dropping it) instead of rewriting
+ * the whole text. In speeches the salutation and the closing stay untouched.
+ */
+const adjustTextLength = async (initialText: string, settings: Settings, signal?: AbortSignal, wordsPerMinute?: number): Promise<string> => {
+    const { topic, mode } = settings;
+    const sourceLang = getPromptLanguageName(settings.sourceLang);
+    const isMonologueMode = mode === 'Vortragsdolmetschen' || mode === 'Simultandolmetschen' || mode === 'Shadowing';
+    const target = getLengthTarget(settings, wordsPerMinute);
+    const unitLabel = getLengthUnitLabel(target.unit, settings.sourceLang);
+    const textKind = isMonologueMode ? 'Vortrag' : 'Text';
+
+    let paragraphs = splitParagraphs(initialText);
+    let attempts = 0;
+    const MAX_ADJUSTMENT_ATTEMPTS = 8;
+    const currentLength = () => measureLength(paragraphs.join('\n\n'), target.unit);
+
+    while ((currentLength() < target.min || currentLength() > target.max) && attempts < MAX_ADJUSTMENT_ATTEMPTS) {
+        attempts++;
+        const length = currentLength();
+        const firstEditable = isMonologueMode && paragraphs.length > 2 ? 1 : 0;
+        const lastEditable = isMonologueMode && paragraphs.length > 2 ? paragraphs.length - 2 : paragraphs.length - 1;
+        const editable = paragraphs.map((_, i) => i).filter(i => i >= firstEditable && i <= lastEditable);
+        if (editable.length === 0) break;
+        const numberedText = paragraphs.map((p, i) => `[Absatz ${i + 1}]\n${p}`).join('\n\n');
+        const targetMid = Math.round((target.min + target.max) / 2);
+
+        console.log(`Adjustment attempt ${attempts}: Current length ${length} ${unitLabel}, target ${target.min}-${target.max}. Adjusting...`);
+
+        if (length > target.max) {
+            const excess = length - targetMid;
+            const longest = editable.reduce((a, b) => measureLength(paragraphs[b], target.unit) > measureLength(paragraphs[a], target.unit) ? b : a, editable[0]);
+            const paragraphLength = measureLength(paragraphs[longest], target.unit);
+            if (excess >= paragraphLength * 0.7 && editable.length > 2) {
+                // Shortening would gut the paragraph anyway, so drop it entirely.
+                paragraphs = paragraphs.filter((_, i) => i !== longest);
+                continue;
+            }
+            const newLength = Math.max(Math.round(paragraphLength * 0.3), paragraphLength - excess);
+            const prompt = `Der folgende ${textKind} zum Thema "${topic}" in der Sprache ${sourceLang} ist zu lang. Kürze NUR Absatz ${longest + 1} auf etwa ${newLength} ${unitLabel} (bisher ${paragraphLength}), ohne seine Kernaussage zu verlieren. Er muss weiterhin nahtlos an die Nachbarabsätze anschließen. Gib NUR den neuen Absatz ${longest + 1} in der Sprache ${sourceLang} aus, ohne die Markierung "[Absatz …]".
+
+${textKind}:
+"""
+${numberedText}
+"""`;
+            paragraphs[longest] = (await generateContentWithRetry(prompt, 'lengthAdjustment', { signal })).trim();
+        } else {
+            const deficit = targetMid - length;
+            const averageLength = Math.max(1, Math.round(length / paragraphs.length));
+            // Larger gaps are filled with a new paragraph, small ones by expanding an existing one.
+            if (deficit > averageLength * 0.6) {
+                const insertAfter = editable[(attempts - 1) % editable.length];
+                const newLength = Math.min(deficit, Math.round(averageLength * 1.5));
+                const prompt = `Der folgende ${textKind} zum Thema "${topic}" in der Sprache ${sourceLang} ist zu kurz. Schreibe einen NEUEN Absatz von etwa ${newLength} ${unitLabel}, der zwischen Absatz ${insertAfter + 1} und Absatz ${insertAfter + 2} eingefügt wird und den Gedankengang sinnvoll fortführt. Bleibe im Stil und in der Sprache (${sourceLang}) des Originaltextes. Gib NUR den neuen Absatz aus, ohne Markierung "[Absatz …]".
+
+${textKind}:
+"""
+${numberedText}
+"""`;
+                const newParagraph = (await generateContentWithRetry(prompt, 'lengthAdjustment', { signal })).trim();
+                paragraphs = [...paragraphs.slice(0, insertAfter + 1), newParagraph, ...paragraphs.slice(insertAfter + 1)];
+            } else {
+                const shortest = editable.reduce((a, b) => measureLength(paragraphs[b], target.unit) < measureLength(paragraphs[a], target.unit) ? b : a, editable[0]);
+                const paragraphLength = measureLength(paragraphs[shortest], target.unit);
+                const prompt = `Der folgende ${textKind} zum Thema "${topic}" in der Sprache ${sourceLang} ist etwas zu kurz. Erweitere NUR Absatz ${shortest + 1} auf etwa ${paragraphLength + deficit} ${unitLabel} (bisher ${paragraphLength}), z. B. durch ein Beispiel oder eine Erläuterung. Bleibe im Stil und in der Sprache (${sourceLang}) des Originaltextes. Gib NUR den neuen Absatz ${shortest + 1} aus, ohne Markierung "[Absatz …]".
+
+${textKind}:
+"""
+${numberedText}
+"""`;
+                paragraphs[shortest] = (await generateContentWithRetry(prompt, 'lengthAdjustment', { signal })).trim();
+            }
+        }
+    }
+
+    if (attempts >= MAX_ADJUSTMENT_ATTEMPTS) {
+        console.warn(`Could not adjust text to target length after ${MAX_ADJUSTMENT_ATTEMPTS} paragraph edits. Using last version.`);
+    }
+
+    return paragraphs.join('\n\n');
+};
+
+
+// --- TTS VOICES & SSML ---
+// Voices are chosen per language in the settings; without a choice the
+// registry voice of the selected quality is used. Voices that support SSML get
+// sentence structure, paragraph pauses and numbers marked up, so that e.g.
+// "1.500" is read as a number in German. Generated texts carry no emphasis;
+// a word marked as *word* while editing the original text is stressed.
+
+interface TtsVoice {
+    name: string;
+    languageCode: string;
+    gender: 'FEMALE' | 'MALE' | 'NEUTRAL' | 'SSML_VOICE_GENDER_UNSPECIFIED';
+    supportsSsml: boolean;
+}
+
+const VOICE_GENDER_LABELS: Record<TtsVoice['gender'], string> = {
+    FEMALE: 'weiblich',
+    MALE: 'männlich',
+    NEUTRAL: 'neutral',
+    SSML_VOICE_GENDER_UNSPECIFIED: 'unbekannt',
+};
+
+// Chirp and Journey voices only take plain text.
+const voiceSupportsSsml = (name: string) => !/-(Chirp|Journey)/.test(name);
+
+/** "en-GB-Wavenet-B" → tier "Wavenet"; "de-DE-Chirp3-HD-Aoede" → "Chirp3-HD". */
+const getVoiceTier = (name: string) => name.split('-').slice(2, -1).join('-');
+
+const voiceFromName = (name: string): TtsVoice => ({
+    name,
+    languageCode: name.split('-').slice(0, 2).join('-'),
+    gender: 'SSML_VOICE_GENDER_UNSPECIFIED',
+    supportsSsml: voiceSupportsSsml(name),
+});
+
+const voiceListCache = new Map<Language, Promise<TtsVoice[]>>();
+
+/** All voices of a language including its regional variants (en-GB, en-AU, ...). */
+const listTtsVoices = (lang: Language): Promise<TtsVoice[]> => {
+    const cached = voiceListCache.get(lang);
+    if (cached) return cached;
+    const languageCode = getLanguage(lang).tts.languageCode.split('-')[0];
+    const request = apiFetch<{ voices: Omit<TtsVoice, 'supportsSsml'>[] }>(`/api/tts/voices?languageCode=${languageCode}`)
+        .then(({ voices }) => voices.map(voice => ({ ...voice, supportsSsml: voiceSupportsSsml(voice.name) })));
+    request.catch(() => voiceListCache.delete(lang));
+    voiceListCache.set(lang, request);
+    return request;
+};
+
+const getSelectedVoice = (settings: Settings, lang: Language): TtsVoice =>
+    voiceFromName(settings.voices[lang] ?? getLanguage(lang).tts.voices[settings.voiceQuality]);
+
+const getSpeakerKey = (segment: DialogueSegment) => segment.speaker ?? segment.type;
+
+/**
+ * Gives every dialogue speaker their own voice. The voice chosen for a language
+ * goes to its first speaker; further speakers, and speakers whose default voice
+ * has the same gender as the previous speaker, get another voice of the same
+ * regional variant and tier, preferably of the other gender.
+ */
+const assignSpeakerVoices = async (dialogue: DialogueSegment[], settings: Settings): Promise<Map<string, TtsVoice>> => {
+    const assigned = new Map<string, TtsVoice>();
+    let previous: TtsVoice | null = null;
+    for (const segment of dialogue) {
+        const key = getSpeakerKey(segment);
+        if (assigned.has(key)) continue;
+        const preferred = getSelectedVoice(settings, segment.lang);
+        const available = await listTtsVoices(segment.lang).catch(() => [] as TtsVoice[]);
+        const taken = new Set(Array.from(assigned.values(), voice => voice.name));
+        const preferredVoice = available.find(voice => voice.name === preferred.name) ?? preferred;
+        const isExplicitChoice = settings.voices[segment.lang] !== undefined;
+        const clashes = previous !== null && previous.gender === preferredVoice.gender && previous.gender !== 'SSML_VOICE_GENDER_UNSPECIFIED';
+
+        let voice = preferredVoice;
+        if (taken.has(preferredVoice.name) || (clashes && !isExplicitChoice)) {
+            const candidates = available.filter(v => !taken.has(v.name)
+                && v.languageCode === preferredVoice.languageCode && getVoiceTier(v.name) === getVoiceTier(preferredVoice.name));
+            voice = candidates.find(v => previous === null || v.gender !== previous.gender) ?? candidates[0] ?? preferredVoice;
+        }
+        assigned.set(key, voice);
+        previous = voice;
+    }
+    return assigned;
+};
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const stripEmphasisMarkers = (text: string) => text.replace(/\*([^*\n]+)\*/g, '$1');
+
+const YEAR_PATTERN = '(?:1[1-9]\\d{2}|20\\d{2})';
+
+const getLanguageForVoice = (languageCode: string): LanguageDefinition | undefined =>
+    LANGUAGE_REGISTRY.find(language => language.tts.languageCode.split('-')[0] === languageCode.split('-')[0]);
+
+/** Month names as they stand alone and before a year ("январь", "января"). */
+const getMonthNames = (locale: string) => {
+    const names = new Set<string>();
+    const standalone = new Intl.DateTimeFormat(locale, { month: 'long' });
+    const withDay = new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'long' });
+    for (let month = 0; month < 12; month++) {
+        const date = new Date(2020, month, 15);
+        names.add(standalone.format(date));
+        const inflected = withDay.formatToParts(date).find(part => part.type === 'month')?.value;
+        if (inflected) names.add(inflected);
+    }
+    return [...names];
+};
+
+// A cue in Han script is part of the word it stands next to, so only other scripts need a word boundary.
+const toCuePattern = (cue: string) => {
+    const escaped = cue.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return /\p{Script=Han}/u.test(cue) ? escaped : `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`;
+};
+
+/**
+ * Recognizes the context that makes a four-digit number a year: a cue word of
+ * the language ("im Jahr 1990", "in 1990", "1990 году"), a month ("März 2020",
+ * "March 5, 2020") or a range of years ("1990–2000").
+ */
+const yearContexts = new Map<string, (textBefore: string, textAfter: string) => boolean>();
+
+const createYearContext = (languageCode: string) => {
+    const cached = yearContexts.get(languageCode);
+    if (cached) return cached;
+    const language = getLanguageForVoice(languageCode);
+    const before = [
+        ...(language?.yearCues.before ?? []).map(toCuePattern),
+        ...getMonthNames(language?.locale ?? languageCode).map(month => `${toCuePattern(month)}(?:\\s+\\d{1,2},)?`),
+    ];
+    const after = (language?.yearCues.after ?? []).map(toCuePattern);
+    const precedingCue = new RegExp(`(?:${before.join('|')})\\s+$|${YEAR_PATTERN}\\s*[–—-]\\s*$`, 'iu');
+    const followingCue = new RegExp(`^(?:\\s*(?:${after.length > 0 ? after.join('|') : '(?!)'})|\\s*[–—-]\\s*${YEAR_PATTERN}(?!\\d))`, 'iu');
+    const isYear = (textBefore: string, textAfter: string) => precedingCue.test(textBefore) || followingCue.test(textAfter);
+    yearContexts.set(languageCode, isYear);
+    return isYear;
+};
+
+// Grouped numbers ("1.500.000" in German, "1,500,000" in English, "1 500" in
+// French) are passed on as plain digits. A four-digit number is read as a year
+// only in a date context, so that "1999 Euro" or "2000 Teilnehmer" stay amounts.
+const markUpNumbers = (escapedText: string, languageCode: string) => {
+    const group = new Intl.NumberFormat(languageCode).formatToParts(10000).find(part => part.type === 'group')?.value ?? ',';
+    const groupPattern = /\s/.test(group) ? '[\\s\\u00A0\\u202F]' : group.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const numberPattern = new RegExp(`(?<![\\d.,])(?:(\\d{1,3}(?:${groupPattern}\\d{3})+)|(${YEAR_PATTERN}))(?!\\d|[.,]\\d)`, 'g');
+    const isYear = createYearContext(languageCode);
+    return escapedText.replace(numberPattern, (match, grouped: string | undefined, _year: string | undefined, offset: number) => {
+        if (grouped) return `<say-as interpret-as="cardinal">${grouped.replace(/\D/g, '')}</say-as>`;
+        return isYear(escapedText.slice(0, offset), escapedText.slice(offset + match.length))
+            ? `<say-as interpret-as="date" format="yyyy">${match}</say-as>`
+            : `<say-as interpret-as="cardinal">${match}</say-as>`;
+    });
+};
+
+/** Builds SSML for one chunk of a speech; pauseAfterMs adds a paragraph pause at its end. */
+const buildSpeechSsml = (text: string, languageCode: string, pauseAfterMs = 0) => {
+    const sentences = splitSentences(text).map(sentence => {
+        const markedUp = markUpNumbers(escapeXml(sentence), languageCode)
+            .replace(/\*([^*\n]+)\*/g, '<emphasis level="moderate">$1</emphasis>');
+        return `<s>${markedUp}</s>`;
+    });
+    return `<speak><p>${sentences.join('')}</p>${pauseAfterMs > 0 ? `<break time="${pauseAfterMs}ms"/>` : ''}</speak>`;
+};
+
+// --- CHUNKED SPEECH SYNTHESIS ---
+// Text-to-Speech accepts at most 5000 bytes per request, which Cyrillic or
+// Chinese speeches reach with far fewer characters. Speeches are therefore split
+// at sentence boundaries, synthesized a few chunks at a time and decoded into
+// one WAV track, so that the player can seek across chunk borders.
+
+interface SpeechChunk {
+    text: string;
+    pauseAfterMs: number;
+    status: 'pending' | 'loading' | 'done' | 'failed';
+    audio: AudioBuffer | null;
+    error: string | null;
+}
+
+const TTS_CHUNK_MAX_BYTES = 1500;
+const TTS_CHUNK_CONCURRENCY = 3;
+const TTS_SAMPLE_RATE = 24000;
+const PARAGRAPH_PAUSE_MS = 800;
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+// A sentence above the limit is cut at the last comma or space that still fits.
+const splitOversizedSentence = (sentence: string, maxBytes: number): string[] => {
+    const pieces: string[] = [];
+    let current = '';
+    for (const char of Array.from(sentence)) {
+        current += char;
+        if (utf8Length(current) <= maxBytes) continue;
+        const breakAt = Math.max(current.lastIndexOf(' '), ...[',', ';', '，', '、', '；'].map(c => current.lastIndexOf(c) + 1));
+        const cut = breakAt > 0 ? breakAt : current.length - char.length;
+        pieces.push(current.slice(0, cut).trim());
+        current = current.slice(cut);
+    }
+    if (current.trim()) pieces.push(current.trim());
+    return pieces.filter(Boolean);
+};
+
+/** Splits a speech into chunks of whole sentences; chunks never span paragraphs. */
+const splitIntoSpeechChunks = (text: string, maxBytes = TTS_CHUNK_MAX_BYTES): { text: string; endsParagraph: boolean }[] => {
+    const chunks: { text: string; endsParagraph: boolean }[] = [];
+    for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+        const sentences = splitSentences(paragraph).flatMap(s => utf8Length(s) > maxBytes ? splitOversizedSentence(s, maxBytes) : [s]);
+        let current = '';
+        for (const sentence of sentences) {
+            const candidate = current ? `${current} ${sentence}` : sentence;
+            if (current && utf8Length(candidate) > maxBytes) {
+                chunks.push({ text: current, endsParagraph: false });
+                current = sentence;
+            } else {
+                current = candidate;
+            }
+        }
+        if (current) chunks.push({ text: current, endsParagraph: true });
+    }
+    return chunks;
+};
+
+const createSpeechChunks = (text: string): SpeechChunk[] =>
+    splitIntoSpeechChunks(text).map((chunk, i, all) => ({
+        text: chunk.text,
+        pauseAfterMs: chunk.endsParagraph && i < all.length - 1 ? PARAGRAPH_PAUSE_MS : 0,
+        status: 'pending',
+        audio: null,
+        error: null,
+    }));
+
+const decodeSpeechAudio = (audioContent: string): Promise<AudioBuffer> => {
+    const bytes = Uint8Array.from(atob(audioContent), c => c.charCodeAt(0));
+    return new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE).decodeAudioData(bytes.buffer);
+};
+
+/**
+ * Synthesizes all chunks that are not done yet, in parallel but at most
+ * TTS_CHUNK_CONCURRENCY at a time. A failed chunk is marked instead of failing
+ * the speech, so that a retry only repeats the failed ones. Every status change
+ * is reported through onUpdate for the progress display.
+ */
+const synthesizeSpeechChunks = async (
+    chunks: SpeechChunk[],
+    voice: TtsVoice,
+    onUpdate: (chunks: SpeechChunk[]) => void,
+    signal?: AbortSignal,
+): Promise<SpeechChunk[]> => {
+    let current = chunks.map((chunk): SpeechChunk => chunk.status === 'done' ? chunk : { ...chunk, status: 'pending', error: null });
+    const update = (index: number, patch: Partial<SpeechChunk>) => {
+        current = current.map((chunk, i) => i === index ? { ...chunk, ...patch } : chunk);
+        onUpdate(current);
+    };
+    onUpdate(current);
+
+    const queue = current.map((_, i) => i).filter(i => current[i].status !== 'done');
+    const worker = async () => {
+        for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+            update(index, { status: 'loading' });
+            try {
+                const audioContent = await synthesizeSpeechGoogleCloud(current[index].text, voice, signal, current[index].pauseAfterMs);
+                update(index, { status: 'done', audio: await decodeSpeechAudio(audioContent) });
+            } catch (error) {
+                if (isCancellation(error)) throw error;
+                console.error(`Speech synthesis of chunk ${index + 1} failed:`, error);
+                update(index, { status: 'failed', error: describeAiError(error) });
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: TTS_CHUNK_CONCURRENCY }, worker));
+    return current;
+};
+
+/** Joins the decoded chunks into one 16-bit mono WAV file. */
+const encodeSpeechTrack = (buffers: AudioBuffer[]): Blob => {
+    const sampleRate = buffers[0]?.sampleRate ?? TTS_SAMPLE_RATE;
+    const sampleCount = buffers.reduce((sum, buffer) => sum + buffer.length, 0);
+    const view = new DataView(new ArrayBuffer(44 + sampleCount * 2));
+    const writeAscii = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+    writeAscii(0, 'RIFF');
+    view.setUint32(4, 36 + sampleCount * 2, true);
+    writeAscii(8, 'WAVE');
+    writeAscii(12, 'fmt ');
+    view.setUint32(16, 16, true);             // size of the fmt chunk
+    view.setUint16(20, 1, true);              // PCM
+    view.setUint16(22, 1, true);              // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // byte rate
+    view.setUint16(32, 2, true);              // block align
+    view.setUint16(34, 16, true);             // bits per sample
+    writeAscii(36, 'data');
+    view.setUint32(40, sampleCount * 2, true);
+
+    let offset = 44;
+    for (const buffer of buffers) {
+        const samples = buffer.getChannelData(0);
+        for (let i = 0; i < samples.length; i++, offset += 2) {
+            const sample = Math.max(-1, Math.min(1, samples[i]));
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+        }
+    }
+    return new Blob([view], { type: 'audio/wav' });
+};
+
+// --- SPEECH TIMELINE ---
+// Players know where each sentence of their speech starts. That drives the
+// timeline, skipping back by one sentence and the segments of consecutive
+// practice. Cloud audio only tells us where its chunks start, so sentence
+// borders inside a chunk are estimated from the text length and then moved into
+// the nearest pause of the audio. Browser speech has no audio to measure, so its
+// times are estimated from the speaking rate of the language.
+
+interface SpeechSentence {
+    text: string;
+    paragraph: number;
+    /** Start in seconds at 1.0x. */
+    start: number;
+}
+
+interface PlaybackSegment {
+    start: number;
+    end: number;
+    text: string;
+}
+
+const SILENCE_FRAME_SECONDS = 0.02;
+const SILENCE_WINDOW_FRAMES = 5; // 100 ms, longer than the closure of a stop consonant
+const SENTENCE_SEARCH_SECONDS = 1;
+// Recordings have no sentence map, so skipping back jumps by a fixed time.
+const RECORDING_SKIP_SECONDS = 5;
+// Times within this margin count as the same position, which absorbs rounding in the players.
+const TIMELINE_TOLERANCE_SECONDS = 0.05;
+
+/** The sentences of a speech with the index of their paragraph; paragraphs are separated by blank lines. */
+const splitSpeechSentences = (text: string): Omit<SpeechSentence, 'start'>[] =>
+    text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)
+        .flatMap((paragraph, index) => splitSentences(paragraph).map(sentence => ({ text: sentence, paragraph: index })));
+
+/** Where the sentences of one chunk start, in seconds from the beginning of its audio. */
+const locateSentenceStarts = (sentences: string[], audio: AudioBuffer, pauseAfterMs: number): number[] => {
+    const samples = audio.getChannelData(0);
+    const frameLength = Math.round(audio.sampleRate * SILENCE_FRAME_SECONDS);
+    const frames = Array.from({ length: Math.floor(samples.length / frameLength) }, (_, frame) => {
+        let sum = 0;
+        for (let i = frame * frameLength; i < (frame + 1) * frameLength; i++) sum += Math.abs(samples[i]);
+        return sum;
+    });
+    const windowEnergy = (frame: number) => frames.slice(frame, frame + SILENCE_WINDOW_FRAMES).reduce((sum, energy) => sum + energy, 0);
+
+    const speechSeconds = Math.max(0, audio.duration - pauseAfterMs / 1000);
+    const totalLength = sentences.reduce((sum, sentence) => sum + sentence.length, 0) || 1;
+    const starts = [0];
+    let lengthBefore = 0;
+    for (const sentence of sentences.slice(0, -1)) {
+        lengthBefore += sentence.length;
+        const estimate = speechSeconds * lengthBefore / totalLength;
+        const from = Math.floor(Math.max(estimate - SENTENCE_SEARCH_SECONDS, starts[starts.length - 1] + SILENCE_FRAME_SECONDS) / SILENCE_FRAME_SECONDS);
+        const to = Math.min(Math.floor((estimate + SENTENCE_SEARCH_SECONDS) / SILENCE_FRAME_SECONDS), frames.length - SILENCE_WINDOW_FRAMES);
+        let quietest = -1;
+        for (let frame = from; frame <= to; frame++) {
+            if (quietest < 0 || windowEnergy(frame) < windowEnergy(quietest)) quietest = frame;
+        }
+        // The middle of the quietest window lies inside the pause between the two sentences.
+        starts.push(quietest < 0 ? estimate : (quietest + SILENCE_WINDOW_FRAMES / 2) * SILENCE_FRAME_SECONDS);
+    }
+    return starts;
+};
+
+/** The sentence playing at the given time. */
+const findSentenceAt = (sentences: SpeechSentence[], seconds: number) => {
+    let index = 0;
+    while (index + 1 < sentences.length && sentences[index + 1].start <= seconds + TIMELINE_TOLERANCE_SECONDS) index++;
+    return index;
+};
+
+/**
+ * Cuts a speech into the segments of consecutive practice. Segments consist of
+ * whole sentences; recordings, which have no sentence map, are cut every
+ * `seconds` instead.
+ */
+const buildPlaybackSegments = (sentences: SpeechSentence[], duration: number, segmentation: ConsecutiveSegmentation): PlaybackSegment[] => {
+    if (segmentation.unit === 'none') return [];
+    if (sentences.length === 0) {
+        // Until the metadata of a recording is loaded, only its first segment is known.
+        const total = Number.isFinite(duration) ? duration : segmentation.seconds;
+        return Array.from({ length: Math.ceil(total / segmentation.seconds) }, (_, i) => ({
+            start: i * segmentation.seconds,
+            end: Math.min((i + 1) * segmentation.seconds, total),
+            text: '',
+        }));
+    }
+    const groups: SpeechSentence[][] = [];
+    sentences.forEach((sentence, i) => {
+        const group = groups[groups.length - 1];
+        const sentenceEnd = sentences[i + 1]?.start ?? duration;
+        const startsNewGroup = !group
+            || (segmentation.unit === 'paragraph' && sentence.paragraph !== group[0].paragraph)
+            || (segmentation.unit === 'sentences' && group.length >= segmentation.sentenceCount)
+            || (segmentation.unit === 'duration' && sentenceEnd - group[0].start > segmentation.seconds);
+        if (startsNewGroup) groups.push([sentence]);
+        else group.push(sentence);
+    });
+    return groups.map((group, i) => ({
+        start: group[0].start,
+        end: groups[i + 1]?.[0].start ?? duration,
+        text: group.map(sentence => sentence.text).join(' '),
+    }));
+};
+
+// --- TTS ENGINES ---
+// Speech output goes through an engine: Cloud Text-to-Speech via the backend,
+// or the browser's own speechSynthesis when the cloud is not reachable. Both
+// hand out a SpeechPlayer, so the practice views play, pause, resume and change
+// the playback rate the same way whichever engine speaks.
+
+type TtsEngineId = 'cloud' | 'browser';
+
+interface SpeechPlayer {
+    /** The sentences of the speech; empty for recordings, whose text is not aligned with the audio. */
+    sentences: SpeechSentence[];
+    /** Whether times are estimated from the speaking rate instead of measured on audio. */
+    timingIsEstimated: boolean;
+    /** The audio file being played; null for browser speech, which has none. */
+    audioUrl: string | null;
+    /** Plays from the current position; with `until`, pauses there and reports it through onended. */
+    play(until?: number): void;
+    pause(): void;
+    /** Times are in seconds at 1.0x; the duration is NaN until it is known. */
+    getCurrentTime(): number;
+    getDuration(): number;
+    seek(seconds: number): void;
+    setPlaybackRate(rate: number): void;
+    /** Stops playback and releases the audio; the player cannot be used afterwards. */
+    dispose(): void;
+    onended: (() => void) | null;
+    /** Reports the measured duration once the audio is loaded; browser speech has none. */
+    ondurationchange: ((seconds: number) => void) | null;
+    ontimeupdate: ((seconds: number) => void) | null;
+}
+
+interface TtsPlayerOptions {
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+}
+
+interface TtsEngine {
+    id: TtsEngineId;
+    isAvailable(): boolean;
+    createPlayer(text: string, lang: Language, voice: TtsVoice, options?: TtsPlayerOptions): Promise<SpeechPlayer>;
+}
+
+/** Plays an audio file. The object URL is revoked on dispose unless the caller keeps owning it. */
+const createAudioElementPlayer = (url: string, ownsUrl = true, sentences: SpeechSentence[] = []): SpeechPlayer => {
+    const audio = new Audio(url);
+    let stopAt: number | null = null;
+    let frame = 0;
+
+    // timeupdate fires only about four times a second, too coarse to stop between two sentences.
+    const watchStop = () => {
+        if (stopAt !== null && audio.currentTime >= stopAt) {
+            audio.pause();
+            stopAt = null;
+            player.onended?.();
+            return;
+        }
+        if (!audio.paused) frame = requestAnimationFrame(watchStop);
+    };
+
+    const player: SpeechPlayer = {
+        sentences,
+        timingIsEstimated: false,
+        audioUrl: url,
+        play: until => {
+            stopAt = until ?? null;
+            audio.play().then(() => {
+                cancelAnimationFrame(frame);
+                frame = requestAnimationFrame(watchStop);
+            }).catch(error => {
+                console.error("Audio playback failed:", error);
+                player.onended?.();
+            });
+        },
+        pause: () => {
+            stopAt = null;
+            cancelAnimationFrame(frame);
+            audio.pause();
+        },
+        getCurrentTime: () => audio.currentTime,
+        getDuration: () => audio.duration,
+        seek: seconds => { audio.currentTime = seconds; },
+        setPlaybackRate: rate => { audio.playbackRate = rate; },
+        dispose: () => {
+            cancelAnimationFrame(frame);
+            audio.pause();
+            if (ownsUrl) URL.revokeObjectURL(url);
+        },
+        onended: null,
+        ondurationchange: null,
+        ontimeupdate: null,
+    };
+    audio.onended = () => player.onended?.();
+    audio.ontimeupdate = () => player.ontimeupdate?.(audio.currentTime);
+    audio.onloadedmetadata = () => {
+        if (Number.isFinite(audio.duration)) player.ondurationchange?.(audio.duration);
+    };
+    return player;
+};
+
+// Chunks of a speech whose synthesis failed part-way are kept until the next
+// attempt, so that a retry only requests the missing ones.
+const incompleteSpeechChunks = new Map<string, SpeechChunk[]>();
+
+const cloudTtsEngine: TtsEngine = {
+    id: 'cloud',
+    isAvailable: () => navigator.onLine,
+    async createPlayer(text, _lang, voice, { signal, onProgress } = {}) {
+        const key = `${voice.name}\n${text}`;
+        const chunks = await synthesizeSpeechChunks(incompleteSpeechChunks.get(key) ?? createSpeechChunks(text), voice,
+            current => onProgress?.(current.filter(chunk => chunk.status === 'done').length, current.length), signal);
+        const failed = chunks.filter(chunk => chunk.status === 'failed');
+        if (failed.length > 0) {
+            incompleteSpeechChunks.set(key, chunks);
+            throw new Error(`Die Sprachausgabe konnte für ${failed.length} von ${chunks.length} Abschnitten nicht erstellt werden. ${failed[0].error}`);
+        }
+        incompleteSpeechChunks.delete(key);
+
+        const sentences: SpeechSentence[] = [];
+        let offset = 0;
+        let paragraph = 0;
+        for (const chunk of chunks) {
+            const chunkSentences = splitSentences(chunk.text);
+            const starts = locateSentenceStarts(chunkSentences, chunk.audio!, chunk.pauseAfterMs);
+            chunkSentences.forEach((sentence, i) => sentences.push({ text: sentence, paragraph, start: offset + starts[i] }));
+            offset += chunk.audio!.duration;
+            if (chunk.pauseAfterMs > 0) paragraph++;
+        }
+        return createAudioElementPlayer(URL.createObjectURL(encodeSpeechTrack(chunks.map(chunk => chunk.audio!))), true, sentences);
+    },
+};
+
+// Browsers load their voice list asynchronously; Chrome starts with an empty one.
+const loadBrowserVoices = () => new Promise<SpeechSynthesisVoice[]>(resolve => {
+    const voices = speechSynthesis.getVoices();
+    if (voices.length > 0) {
+        resolve(voices);
+        return;
+    }
+    const timeout = window.setTimeout(() => resolve(speechSynthesis.getVoices()), 2000);
+    speechSynthesis.addEventListener('voiceschanged', () => {
+        window.clearTimeout(timeout);
+        resolve(speechSynthesis.getVoices());
+    }, { once: true });
+});
+
+/** Picks a browser voice for the language's locale: exact locale before other regions, local voices before network ones. */
+const findBrowserVoice = (voices: SpeechSynthesisVoice[], lang: Language): SpeechSynthesisVoice | null => {
+    const { locale } = getLanguage(lang);
+    const normalize = (value: string) => value.replace('_', '-').toLowerCase();
+    const score = (voice: SpeechSynthesisVoice) => (normalize(voice.lang) === normalize(locale) ? 2 : 0) + (voice.localService ? 1 : 0);
+    return voices
+        .filter(voice => normalize(voice.lang).split('-')[0] === normalize(locale).split('-')[0])
+        .sort((a, b) => score(b) - score(a))[0] ?? null;
+};
+
+/**
+ * Speaks sentence by sentence, which avoids Chrome cutting off long utterances
+ * and makes pause, seeking and rate changes reliable: they cancel the current
+ * sentence and start speaking again at the beginning of a sentence.
+ */
+const createBrowserSpeechPlayer = (text: string, voice: SpeechSynthesisVoice, lang: Language): SpeechPlayer => {
+    const secondsPerWord = 60 / getLanguage(lang).wordsPerMinute;
+    let duration = 0;
+    const sentences = splitSpeechSentences(stripEmphasisMarkers(text)).map((sentence): SpeechSentence => {
+        const start = duration;
+        duration += Math.max(1, countWords(sentence.text)) * secondsPerWord;
+        return { ...sentence, start };
+    });
+    let index = 0;
+    let stopIndex = sentences.length;
+    let rate = 1;
+    let isSpeaking = false;
+    let utterance: SpeechSynthesisUtterance | null = null;
+    let utteranceStartedAt = 0;
+    let ticker = 0;
+
+    const getCurrentTime = () => {
+        if (index >= sentences.length) return duration;
+        if (!isSpeaking) return sentences[index].start;
+        const elapsed = (performance.now() - utteranceStartedAt) / 1000 * rate;
+        return Math.min(sentences[index].start + elapsed, sentences[index + 1]?.start ?? duration);
+    };
+    const setSpeaking = (speaking: boolean) => {
+        isSpeaking = speaking;
+        window.clearInterval(ticker);
+        if (speaking) ticker = window.setInterval(() => player.ontimeupdate?.(getCurrentTime()), 250);
+    };
+
+    const speakCurrent = () => {
+        utteranceStartedAt = performance.now();
+        player.ontimeupdate?.(getCurrentTime());
+        if (index >= stopIndex) {
+            setSpeaking(false);
+            if (index >= sentences.length) index = 0;
+            player.onended?.();
+            return;
+        }
+        const current = new SpeechSynthesisUtterance(sentences[index].text);
+        current.voice = voice;
+        current.lang = voice.lang;
+        current.rate = rate;
+        current.onstart = () => { utteranceStartedAt = performance.now(); };
+        // Cancelled utterances still fire end/error events; only the active one continues the speech.
+        current.onend = () => {
+            if (utterance !== current) return;
+            index++;
+            speakCurrent();
+        };
+        current.onerror = event => {
+            if (utterance !== current || event.error === 'interrupted' || event.error === 'canceled') return;
+            console.error("Browser speech synthesis failed:", event.error);
+            index++;
+            speakCurrent();
+        };
+        utterance = current;
+        speechSynthesis.speak(current);
+    };
+    const stopSpeaking = () => {
+        utterance = null;
+        speechSynthesis.cancel();
+    };
+
+    const player: SpeechPlayer = {
+        sentences,
+        timingIsEstimated: true,
+        audioUrl: null,
+        play: until => {
+            const stop = until === undefined ? -1 : sentences.findIndex(sentence => sentence.start >= until - TIMELINE_TOLERANCE_SECONDS);
+            stopIndex = stop < 0 ? sentences.length : stop;
+            if (isSpeaking) return;
+            setSpeaking(true);
+            speakCurrent();
+        },
+        pause: () => {
+            setSpeaking(false);
+            stopSpeaking();
+        },
+        getCurrentTime,
+        getDuration: () => duration,
+        seek: seconds => {
+            index = findSentenceAt(sentences, seconds);
+            if (isSpeaking) {
+                stopSpeaking();
+                speakCurrent();
+            } else {
+                player.ontimeupdate?.(getCurrentTime());
+            }
+        },
+        setPlaybackRate: newRate => {
+            rate = newRate;
+            if (isSpeaking) {
+                stopSpeaking();
+                speakCurrent();
+            }
+        },
+        dispose: () => {
+            if (isSpeaking) stopSpeaking();
+            setSpeaking(false);
+        },
+        onended: null,
+        ondurationchange: null,
+        ontimeupdate: null,
+    };
+    return player;
+};
+
+const browserTtsEngine: TtsEngine = {
+    id: 'browser',
+    isAvailable: () => 'speechSynthesis' in window,
+    async createPlayer(text, lang) {
+        const voice = findBrowserVoice(await loadBrowserVoices(), lang);
+        if (!voice) throw new Error(`Der Browser hat keine Stimme für ${lang}.`);
+        return createBrowserSpeechPlayer(text, voice, lang);
+    },
+};
+
+interface PreparedSpeech {
+    player: SpeechPlayer;
+    /** Why the browser speaks instead of the cloud voice; null when the cloud voice is used. */
+    fallbackReason: string | null;
+}
+
+/** Creates a player with Cloud TTS and falls back to the browser's speech synthesis when that fails. */
+const createSpeechPlayer = async (text: string, lang: Language, voice: TtsVoice, options: TtsPlayerOptions = {}): Promise<PreparedSpeech> => {
+    let cloudError: unknown = new Error('Keine Internetverbindung.');
+    if (cloudTtsEngine.isAvailable()) {
+        try {
+            return { player: await cloudTtsEngine.createPlayer(text, lang, voice, options), fallbackReason: null };
+        } catch (error) {
+            if (isCancellation(error) || !browserTtsEngine.isAvailable()) throw error;
+            console.warn("Cloud speech synthesis failed, falling back to the browser:", error);
+            cloudError = error;
+        }
+    }
+    try {
+        return { player: await browserTtsEngine.createPlayer(text, lang, voice, options), fallbackReason: (cloudError as Error).message };
+    } catch (error) {
+        console.error("Browser speech synthesis is not available:", error);
+        throw cloudError;
+    }
+};
+
+// --- STRUCTURED OUTPUT ---
+// AI answers that must be JSON (feedback, dialogues) are parsed and validated
+// at runtime. Small deviations are repaired in place (e.g. "8" instead of 8,
+// "frage" instead of "Frage"); anything else is sent back to the model together
+// with the list of violations, and only after that fails do we give up.
+
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+class StructuredOutputError extends AiError {
+    constructor(public errors: string[], public rawOutput: string) {
+        super('malformed_output', `${AI_ERROR_MESSAGES.malformed_output} (${errors.slice(0, 3).join(' ')})`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+const MAX_SCHEMA_REPAIR_ATTEMPTS = 2;
+
+const extractJson = (text: string, kind: 'object' | 'array'): unknown => {
+    const [open, close] = kind === 'object' ? ['{', '}'] : ['[', ']'];
+    const withoutFences = text.replace(/```(?:json)?/gi, '');
+    const jsonStart = withoutFences.indexOf(open);
+    const jsonEnd = withoutFences.lastIndexOf(close);
+    if (jsonStart === -1 || jsonEnd === -1 || jsonEnd < jsonStart) {
+        throw new Error(`Die Antwort enthält kein JSON-${kind === 'object' ? 'Objekt' : 'Array'}.`);
+    }
+    const jsonString = withoutFences.substring(jsonStart, jsonEnd + 1);
+    try {
+        return JSON.parse(jsonString);
+    } catch {
+        // Trailing commas are the most common syntax slip of LLMs.
+        return JSON.parse(jsonString.replace(/,\s*([}\]])/g, '$1'));
+    }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (obj: Record<string, unknown>, key: string, path: string, errors: string[]): string => {
+    const value = obj[key];
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number') return String(value);
+    errors.push(`${path ? `${path}.` : ''}${key} muss ein Text sein.`);
+    return '';
+};
+
+const readRating = (obj: Record<string, unknown>, key: string, errors: string[]): number => {
+    const value = typeof obj[key] === 'string' ? parseFloat(obj[key] as string) : obj[key];
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+        errors.push(`${key} muss eine Zahl von 1 bis 10 sein.`);
+        return 0;
+    }
+    return Math.min(10, Math.max(1, Math.round(value)));
+};
+
+const normalizeErrorType = (value: unknown): ErrorAnalysisItem['type'] | null => {
+    if (typeof value !== 'string') return null;
+    const normalized = value.trim().toLowerCase();
+    if (normalized.startsWith('inhalt') || normalized === 'content') return 'Inhalt';
+    if (normalized.startsWith('sprach') || normalized === 'language') return 'Sprache';
+    return null;
+};
+
+const normalizeTermStatus = (value: unknown): TermStatus | null => {
+    if (typeof value !== 'string') return null;
+    const normalized = value.trim().toLowerCase();
+    if (normalized.startsWith('verwendet') || normalized === 'used') return 'verwendet';
+    if (normalized.startsWith('synonym')) return 'Synonym';
+    if (normalized.startsWith('ausgelassen') || normalized === 'omitted') return 'ausgelassen';
+    if (normalized.startsWith('nicht im original') || normalized === 'not in source') return 'nicht im Original';
+    return null;
+};
+
+// The terminology score is computed from the per-term results rather than
+// asked from the model, so it always matches the table: an agreed term counts
+// fully, a synonym half, an omission not at all.
+const TERM_STATUS_WEIGHTS: Record<Exclude<TermStatus, 'nicht im Original'>, number> = {
+    "verwendet": 1,
+    "Synonym": 0.5,
+    "ausgelassen": 0,
+};
+
+const getTerminologyRating = (terms: TermCheck[]): number => {
+    const relevant = terms.filter(term => term.status !== 'nicht im Original');
+    if (relevant.length === 0) return 10;
+    const score = relevant.reduce((sum, term) => sum + TERM_STATUS_WEIGHTS[term.status as keyof typeof TERM_STATUS_WEIGHTS], 0) / relevant.length;
+    return Math.max(1, Math.round(score * 10));
+};
+
+const validateTerminology = (value: unknown, errors: string[]): TerminologyReport | undefined => {
+    if (!isRecord(value)) {
+        errors.push('terminology muss ein Objekt sein.');
+        return undefined;
+    }
+    const summary = readString(value, 'summary', 'terminology', errors);
+    if (!Array.isArray(value.terms)) {
+        errors.push('terminology.terms muss ein Array sein.');
+        return undefined;
+    }
+    const terms = value.terms.map((item, i) => {
+        const path = `terminology.terms[${i}]`;
+        if (!isRecord(item)) {
+            errors.push(`${path} muss ein Objekt sein.`);
+            return null;
+        }
+        const status = normalizeTermStatus(item.status);
+        if (!status) errors.push(`${path}.status muss "verwendet", "Synonym", "ausgelassen" oder "nicht im Original" sein.`);
+        return {
+            source: readString(item, 'source', path, errors),
+            expected: readString(item, 'expected', path, errors),
+            used: item.used == null ? '' : readString(item, 'used', path, errors),
+            status: status ?? 'ausgelassen',
+            comment: item.comment == null ? '' : readString(item, 'comment', path, errors),
+        };
+    }).filter((item): item is TermCheck => item !== null);
+    return { rating: getTerminologyRating(terms), summary, terms };
+};
+
+// The metrics are measured, not asked from the model; it only rates and summarizes them.
+const validateDelivery = (value: unknown, metrics: DeliveryMetrics, errors: string[]): DeliveryReport | undefined => {
+    if (!isRecord(value)) {
+        errors.push('delivery muss ein Objekt sein.');
+        return undefined;
+    }
+    return { rating: readRating(value, 'rating', errors), summary: readString(value, 'summary', 'delivery', errors), metrics };
+};
+
+const validateFeedback = (value: unknown, requireTerminology = false, deliveryMetrics: DeliveryMetrics | null = null): ValidationResult<Feedback> => {
+    const errors: string[] = [];
+    if (!isRecord(value)) return { ok: false, errors: ['Die Antwort muss ein JSON-Objekt sein.'] };
+
+    const contentRating = readRating(value, 'contentRating', errors);
+    const languageRating = readRating(value, 'languageRating', errors);
+    const contentSummary = readString(value, 'contentSummary', '', errors);
+    const languageSummary = readString(value, 'languageSummary', '', errors);
+
+    let errorAnalysis: ErrorAnalysisItem[] = [];
+    if (value.errorAnalysis === null) {
+        errorAnalysis = [];
+    } else if (!Array.isArray(value.errorAnalysis)) {
+        errors.push('errorAnalysis muss ein Array sein.');
+    } else {
+        errorAnalysis = value.errorAnalysis.map((item, i) => {
+            const path = `errorAnalysis[${i}]`;
+            if (!isRecord(item)) {
+                errors.push(`${path} muss ein Objekt sein.`);
+                return null;
+            }
+            const type = normalizeErrorType(item.type);
+            if (!type) errors.push(`${path}.type muss "Inhalt" oder "Sprache" sein.`);
+            return {
+                original: readString(item, 'original', path, errors),
+                interpretation: readString(item, 'interpretation', path, errors),
+                suggestion: readString(item, 'suggestion', path, errors),
+                explanation: readString(item, 'explanation', path, errors),
+                type: type ?? 'Inhalt',
+            };
+        }).filter((item): item is ErrorAnalysisItem => item !== null);
+    }
+
+    const terminology = requireTerminology || value.terminology != null ? validateTerminology(value.terminology, errors) : undefined;
+    const delivery = deliveryMetrics ? validateDelivery(value.delivery, deliveryMetrics, errors) : undefined;
+
+    if (errors.length > 0) return { ok: false, errors };
+    return { ok: true, value: { contentRating, languageRating, contentSummary, languageSummary, errorAnalysis, terminology, delivery } };
+};
+
+const validateDialogue = (value: unknown, settings: Settings): ValidationResult<DialogueSegment[]> => {
+    if (!Array.isArray(value)) return { ok: false, errors: ['Die Antwort muss ein JSON-Array sein.'] };
+    if (value.length === 0) return { ok: false, errors: ['Der Dialog enthält keine Segmente.'] };
+
+    const errors: string[] = [];
+    const segments = value.map((item, i): DialogueSegment => {
+        const path = `[${i}]`;
+        if (!isRecord(item)) {
+            errors.push(`${path} muss ein Objekt sein.`);
+            return { type: 'Frage', text: '', lang: settings.sourceLang };
+        }
+        const rawType = typeof item.type === 'string' ? item.type.trim().toLowerCase() : '';
+        const type: DialogueSegment['type'] | null =
+            rawType === 'frage' || rawType === 'question' ? 'Frage'
+            : rawType === 'antwort' || rawType === 'answer' ? 'Antwort'
+            : null;
+        if (!type) errors.push(`${path}.type muss "Frage" oder "Antwort" sein.`);
+
+        const text = readString(item, 'text', path, errors);
+        if (!text && typeof item.text === 'string') errors.push(`${path}.text darf nicht leer sein.`);
+
+        // Questions are asked in the source language, answers given in the target language.
+        const expectedLang = type === 'Antwort' ? settings.targetLang : settings.sourceLang;
+        const lang = LANGUAGES.find(l => l === item.lang) ?? expectedLang;
+        return { type: type ?? 'Frage', text, lang };
+    });
+
+    if (errors.length > 0) return { ok: false, errors };
+    return { ok: true, value: segments };
+};
+
+/**
+ * Generates, parses and validates a JSON answer. On a schema violation the
+ * model is re-prompted with the original task and the list of problems.
+ */
+const generateStructuredContent = async <T,>(
+    prompt: string,
+    task: AiTask,
+    kind: 'object' | 'array',
+    validate: (value: unknown) => ValidationResult<T>,
+    signal?: AbortSignal,
+): Promise<T> => {
+    let currentPrompt = prompt;
+    let lastErrors: string[] = [];
+    let lastOutput = '';
+
+    for (let attempt = 0; attempt <= MAX_SCHEMA_REPAIR_ATTEMPTS; attempt++) {
+        lastOutput = await generateContentWithRetry(currentPrompt, task, { signal });
+        try {
+            const result = validate(extractJson(lastOutput, kind));
+            if (result.ok) return result.value;
+            lastErrors = result.errors;
+        } catch (error) {
+            lastErrors = [(error as Error).message];
+        }
+        console.warn(`Structured output attempt ${attempt + 1} for "${task}" was invalid:`, lastErrors, lastOutput);
+        currentPrompt = `${prompt}
+
+WICHTIG: Deine vorherige Antwort entsprach nicht dem geforderten JSON-Format. Gefundene Probleme:
+${lastErrors.map(e => `- ${e}`).join('\n')}
+
+Deine vorherige Antwort:
+"""
+${lastOutput}
+"""
+
+Antworte erneut und gib NUR gültiges JSON im geforderten Format aus.`;
+    }
+
+    throw new StructuredOutputError(lastErrors, lastOutput);
+};
+
+// --- GLOSSARIES ---
+// Terminology preparation before an exercise: key terms are extracted from the
+// source text by the model, or imported from the user's own CSV/TBX files, and
+// kept per topic and language pair on the server.
+
+const validateGlossaryEntries = (value: unknown): ValidationResult<GlossaryEntry[]> => {
+    if (!Array.isArray(value)) return { ok: false, errors: ['Die Antwort muss ein JSON-Array sein.'] };
+
+    const errors: string[] = [];
+    const entries = value.map((item, i): GlossaryEntry => {
+        const path = `[${i}]`;
+        if (!isRecord(item)) {
+            errors.push(`${path} muss ein Objekt sein.`);
+            return { source: '', target: '', note: '' };
+        }
+        return {
+            source: readString(item, 'source', path, errors),
+            target: readString(item, 'target', path, errors),
+            note: item.note == null ? '' : readString(item, 'note', path, errors),
+        };
+    }).filter(entry => entry.source && entry.target);
+
+    if (errors.length > 0) return { ok: false, errors };
+    return { ok: true, value: entries };
+};
+
+const getExerciseSourceText = (originalText: string, dialogue: DialogueSegment[]) =>
+    dialogue.length > 0 ? dialogue.map(segment => `${segment.speaker ?? segment.type} (${segment.lang}): ${segment.text}`).join('\n') : originalText;
+
+const extractGlossaryTerms = (settings: Settings, sourceText: string, signal?: AbortSignal): Promise<GlossaryEntry[]> => {
+    const { sourceLang, targetLang } = settings;
+    const prompt = `Du bereitest eine Dolmetschübung vor (Ausgangssprache ${sourceLang}, Zielsprache ${targetLang}). Extrahiere aus dem folgenden Text die 10 bis 25 wichtigsten Fachbegriffe, Eigennamen, Institutionen, Abkürzungen und feststehenden Wendungen, die ein Dolmetscher vorab recherchieren sollte. Gib zu jedem Begriff die in ${getPromptLanguageName(targetLang)} etablierte Entsprechung an. Steht ein Begriff im Text auf ${targetLang}, führe trotzdem die ${sourceLang}-Entsprechung als "source" auf.
+
+Antworte NUR mit einem JSON-Array im folgenden Format, ohne zusätzliche Erklärungen:
+[{"source": "Begriff auf ${sourceLang}", "target": "Entsprechung auf ${targetLang}", "note": "kurze Erläuterung oder leerer Text"}]
+
+Text:
+"""
+${sourceText}
+"""`;
+    return generateStructuredContent(prompt, 'glossary', 'array', validateGlossaryEntries, signal);
+};
+
+const hasGlossaryEntries = (glossary: Glossary | null): glossary is Glossary => !!glossary && glossary.entries.length > 0;
+
+/**
+ * Extra task for the feedback prompts: check every glossary term. Returns an
+ * empty string when the exercise has no glossary, so the prompts stay as they were.
+ */
+const buildTerminologyCheckPrompt = (glossary: Glossary | null, bidirectional = false) => {
+    if (!hasGlossaryEntries(glossary)) return '';
+    const terms = glossary.entries.map(entry => `- ${entry.source} → ${entry.target}`).join('\n');
+    return `
+        Terminologieprüfung:
+        Für diese Übung wurde folgendes Glossar (${glossary.sourceLang} → ${glossary.targetLang}) vereinbart:
+${terms}
+        ${bidirectional ? `Wird ein Segment von ${glossary.targetLang} nach ${glossary.sourceLang} gedolmetscht, gilt das Glossar in umgekehrter Richtung.\n        ` : ''}Prüfe für JEDEN Glossarbegriff, ob die vereinbarte Entsprechung in der Verdolmetschung verwendet wurde ("verwendet"), durch ein Synonym oder eine Umschreibung ersetzt wurde ("Synonym") oder fehlt ("ausgelassen"). Kommt der Begriff im Original gar nicht vor, verwende "nicht im Original".
+        Ergänze das JSON-Objekt um das Feld "terminology":
+        "terminology": { "summary": "string (1-2 Sätze zur Terminologie)", "terms": [{"source": "string", "expected": "string", "used": "string (tatsächlich verwendeter Ausdruck oder leer)", "status": "'verwendet', 'Synonym', 'ausgelassen' oder 'nicht im Original'", "comment": "string"}] }
+    `;
+};
+
+/** Adds entries whose source term is not in the glossary yet; existing entries win. */
+const mergeGlossaryEntries = (existing: GlossaryEntry[], added: GlossaryEntry[]): GlossaryEntry[] => {
+    const known = new Set(existing.map(entry => entry.source.trim().toLowerCase()));
+    return [...existing, ...added.filter(entry => {
+        const key = entry.source.trim().toLowerCase();
+        if (known.has(key)) return false;
+        known.add(key);
+        return true;
+    })];
+};
+
+const matchesLanguage = (value: string, lang: Language) => {
+    const normalized = value.trim().toLowerCase();
+    return normalized === lang.toLowerCase()
+        || normalized === getLanguage(lang).locale.toLowerCase()
+        || normalized === getLanguage(lang).locale.split('-')[0].toLowerCase();
+};
+
+const parseCsvRows = (text: string): string[][] => {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const delimiter = [';', '\t', ','].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field); field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field); rows.push(row); row = []; field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    rows.push(row);
+    return rows.map(r => r.map(cell => cell.trim())).filter(r => r.some(Boolean));
+};
+
+/**
+ * Reads a CSV glossary with the columns source, target and an optional note.
+ * A header row may name the columns by language ("Deutsch", "de-DE", "en") or
+ * as source/target; without a header the first two columns are used.
+ */
+const parseCsvGlossary = (text: string, sourceLang: Language, targetLang: Language): GlossaryEntry[] => {
+    const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    if (rows.length === 0) return [];
+    const header = rows[0];
+    const findColumn = (test: (cell: string) => boolean) => header.findIndex(test);
+    let sourceIndex = findColumn(cell => matchesLanguage(cell, sourceLang) || /^(source|quelle|ausgangs)/i.test(cell));
+    let targetIndex = findColumn(cell => matchesLanguage(cell, targetLang) || /^(target|ziel)/i.test(cell));
+    const noteIndex = findColumn(cell => /^(note|notes|anmerkung|kommentar|definition)/i.test(cell));
+    const hasHeader = sourceIndex !== -1 || targetIndex !== -1 || noteIndex !== -1;
+    if (sourceIndex === -1) sourceIndex = 0;
+    if (targetIndex === -1) targetIndex = sourceIndex === 0 ? 1 : 0;
+
+    return (hasHeader ? rows.slice(1) : rows)
+        .map(row => ({ source: row[sourceIndex] ?? '', target: row[targetIndex] ?? '', note: noteIndex === -1 ? '' : row[noteIndex] ?? '' }))
+        .filter(entry => entry.source && entry.target);
+};
+
+/** Reads TBX-Basic (termEntry/langSet/tig) as well as TBX v3 (conceptEntry/langSec/termSec) files. */
+const parseTbxGlossary = (text: string, sourceLang: Language, targetLang: Language): GlossaryEntry[] => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Die TBX-Datei ist kein gültiges XML.');
+    }
+    const concepts = [...Array.from(doc.getElementsByTagName('termEntry')), ...Array.from(doc.getElementsByTagName('conceptEntry'))];
+    return concepts.map(concept => {
+        const languageSections = Array.from(concept.children).filter(el => el.localName === 'langSet' || el.localName === 'langSec');
+        const termFor = (lang: Language) => {
+            const section = languageSections.find(el => matchesLanguage(el.getAttribute('xml:lang') ?? '', lang));
+            return section?.getElementsByTagName('term')[0]?.textContent?.trim() ?? '';
+        };
+        const note = Array.from(concept.getElementsByTagName('descrip')).concat(Array.from(concept.getElementsByTagName('note')))[0];
+        return { source: termFor(sourceLang), target: termFor(targetLang), note: note?.textContent?.trim() ?? '' };
+    }).filter(entry => entry.source && entry.target);
+};
+
+const parseGlossaryFile = async (file: File, sourceLang: Language, targetLang: Language): Promise<GlossaryEntry[]> => {
+    const text = await file.text();
+    const isTbx = /\.(tbx|xml)$/i.test(file.name) || text.trimStart().startsWith('<');
+    const entries = isTbx ? parseTbxGlossary(text, sourceLang, targetLang) : parseCsvGlossary(text, sourceLang, targetLang);
+    if (entries.length === 0) {
+        throw new Error(`Die Datei enthält keine Einträge für ${sourceLang} → ${targetLang}.`);
+    }
+    return entries;
+};
+
+// --- SOURCE TEXT IMPORT ---
+// Uploaded speeches arrive as Word documents, PDFs, Markdown or subtitle files.
+// Each importer reduces its format to clean running text with paragraphs
+// separated by blank lines, which is what the practice views and the length
+// adjustment expect.
+
+const SOURCE_FILE_ACCEPT = '.txt,.md,.markdown,.docx,.pdf,.srt,.vtt';
+
+const normalizeImportedText = (text: string) => text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00A0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const decodeXmlEntities = (text: string) => text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const extractMarkdownText = (markdown: string) => normalizeImportedText(markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '')          // front matter
+    .replace(/```[\s\S]*?```/g, '')                 // code blocks
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/^#{1,6}\s.*$/gm, '')                  // headings are titles, not part of the speech
+    .replace(/^\s*([-*_])\s*(\1\s*){2,}$/gm, '')    // horizontal rules
+    .replace(/^\s*\|?\s*:?-{3,}.*$/gm, '')          // table separator rows
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')           // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')        // inline links
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')       // reference links
+    .replace(/^\s*\[[^\]]+\]:\s.*$/gm, '')          // link definitions
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\|/g, ' ')
+    .replace(/<[^>]+>/g, ''));
+
+const SUBTITLE_TIMING = /^((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+// A pause of this length between two cues starts a new paragraph.
+const SUBTITLE_PARAGRAPH_GAP_SECONDS = 2;
+
+const parseSubtitleTime = (value: string) =>
+    value.replace(',', '.').split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+
+/** Reads SRT and WebVTT files: cue numbers, timestamps, styling and repeated caption lines are dropped. */
+const extractSubtitleText = (subtitles: string) => {
+    const blocks = normalizeImportedText(subtitles).split(/\n\n+/);
+    const paragraphs: string[][] = [[]];
+    let previousEnd = 0;
+    let previousLine = '';
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => SUBTITLE_TIMING.test(line));
+        if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE and REGION blocks
+        const [, start, end] = lines[timingIndex].match(SUBTITLE_TIMING)!;
+        if (parseSubtitleTime(start) - previousEnd >= SUBTITLE_PARAGRAPH_GAP_SECONDS && paragraphs[paragraphs.length - 1].length > 0) {
+            paragraphs.push([]);
+        }
+        previousEnd = parseSubtitleTime(end);
+        for (const rawLine of lines.slice(timingIndex + 1)) {
+            const line = decodeXmlEntities(rawLine.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '')).trim();
+            // Auto-generated captions repeat the previous line in the next cue.
+            if (!line || line === previousLine) continue;
+            paragraphs[paragraphs.length - 1].push(line);
+            previousLine = line;
+        }
+    }
+    return normalizeImportedText(paragraphs.map(p => p.join(' ')).join('\n\n'));
+};
+
+/** Reads one file from a ZIP archive (a .docx is one); only stored and deflated entries occur in practice. */
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<string | null> => {
+    const view = new DataView(buffer);
+    let endOfDirectory = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xFFFF); i--) {
+        if (view.getUint32(i, true) === 0x06054B50) {
+            endOfDirectory = i;
+            break;
+        }
+    }
+    if (endOfDirectory === -1) throw new Error('Die Datei ist kein gültiges Word-Dokument.');
+
+    const decoder = new TextDecoder();
+    const entryCount = view.getUint16(endOfDirectory + 10, true);
+    let offset = view.getUint32(endOfDirectory + 16, true);
+    for (let i = 0; i < entryCount; i++) {
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localHeader = view.getUint32(offset + 42, true);
+        const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+        if (name === entryName) {
+            const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+            const data = new Uint8Array(buffer, dataStart, compressedSize);
+            if (method === 0) return decoder.decode(data);
+            if (method !== 8) throw new Error('Das Word-Dokument verwendet eine nicht unterstützte Komprimierung.');
+            return new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+        }
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return null;
+};
+
+/**
+ * Reads the body of a Word document. Headers, footers, footnotes and comments
+ * live in other parts of the archive and are therefore left out.
+ */
+const extractDocxText = async (buffer: ArrayBuffer) => {
+    const xml = await readZipEntry(buffer, 'word/document.xml');
+    if (!xml) throw new Error('Die Datei ist kein gültiges Word-Dokument.');
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    // A text box is anchored inside a paragraph, and stored twice: its own
+    // paragraphs are read on their own, and the legacy fallback copy is skipped.
+    const isInTextBox = (node: Element, paragraph: Element) => {
+        for (let parent = node.parentElement; parent && parent !== paragraph; parent = parent.parentElement) {
+            if (parent.tagName === 'w:txbxContent' || parent.tagName === 'mc:Fallback') return true;
+        }
+        return false;
+    };
+    const paragraphs = Array.from(doc.getElementsByTagName('w:p'))
+        .filter(p => !p.closest('mc\\:Fallback, Fallback'))
+        .map(p => Array.from(p.getElementsByTagName('*')).map(node => {
+            if (isInTextBox(node, p)) return '';
+            if (node.tagName === 'w:t') return node.textContent ?? '';
+            if (node.tagName === 'w:tab') return ' ';
+            if (node.tagName === 'w:br' || node.tagName === 'w:cr') return '\n';
+            return '';
+        }).join(''));
+    return normalizeImportedText(paragraphs.filter(p => p.trim()).join('\n\n'));
+};
+
+const PAGE_NUMBER_LINE = /^(?:seite|page|s\.)?\s*[-–]?\s*\d+\s*(?:[-–]|(?:von|of|\/)\s*\d+)?\s*$/i;
+
+/**
+ * Reads the text layer of a PDF. Lines that recur at the top or bottom of most
+ * pages (running headers and footers) and bare page numbers are removed, and
+ * lines are joined back into paragraphs.
+ */
+const extractPdfText = async (buffer: ArrayBuffer) => {
+    const [pdfjs, { default: workerUrl }] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]);
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+    const pdf = await pdfjs.getDocument({ data: buffer }).promise;
+
+    const pages: string[][] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const lines: string[] = [];
+        let current = '';
+        let lastY: number | null = null;
+        let lineHeight = 0;
+        for (const item of content.items) {
+            if (!('str' in item)) continue;
+            const y = item.transform[5];
+            if (current === '' && lastY !== null && lineHeight > 0 && lastY - y > lineHeight * 1.8) {
+                lines.push(''); // a larger vertical gap marks a new paragraph
+            }
+            current += item.str;
+            if (item.height > 0) lineHeight = item.height;
+            if (item.hasEOL) {
+                lines.push(current.trim());
+                current = '';
+                lastY = y;
+            }
+        }
+        if (current.trim()) lines.push(current.trim());
+        pages.push(lines);
+    }
+
+    const edgeLines = (lines: string[]) => {
+        const text = lines.filter(Boolean);
+        return [...text.slice(0, 2), ...text.slice(-2)];
+    };
+    const repeatKey = (line: string) => line.replace(/\d+/g, '#').toLowerCase();
+    const repeatCounts = new Map<string, number>();
+    pages.forEach(lines => new Set(edgeLines(lines).map(repeatKey)).forEach(key => repeatCounts.set(key, (repeatCounts.get(key) ?? 0) + 1)));
+    const isRunningLine = (line: string) => PAGE_NUMBER_LINE.test(line)
+        || (pages.length >= 3 && (repeatCounts.get(repeatKey(line)) ?? 0) >= Math.max(2, pages.length * 0.5));
+
+    const keptLines = pages.flatMap(lines => {
+        const edges = new Set(edgeLines(lines));
+        const kept = lines.filter(line => !(line && edges.has(line) && isRunningLine(line)));
+        // A paragraph only continues on the next page if this page ends mid-sentence.
+        const lastLine = kept.filter(Boolean).pop() ?? '';
+        return /[.!?…:;"“”»。！？؟]$/.test(lastLine) ? [...kept, ''] : kept;
+    });
+
+    const paragraphs: string[] = [];
+    let paragraph = '';
+    for (const line of keptLines) {
+        if (!line) {
+            if (paragraph) paragraphs.push(paragraph);
+            paragraph = '';
+        } else if (/[A-Za-zÀ-ž]-$/.test(paragraph) && /^\p{Ll}/u.test(line)) {
+            paragraph = paragraph.slice(0, -1) + line; // hyphenated line break
+        } else {
+            paragraph = paragraph ? `${paragraph} ${line}` : line;
+        }
+    }
+    if (paragraph) paragraphs.push(paragraph);
+    return normalizeImportedText(paragraphs.join('\n\n'));
+};
+
+/** Extracts the running text of an uploaded source file based on its extension. */
+const importSourceText = async (file: File): Promise<string> => {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    let text: string;
+    switch (extension) {
+        case 'docx': text = await extractDocxText(await file.arrayBuffer()); break;
+        case 'pdf': text = await extractPdfText(await file.arrayBuffer()); break;
+        case 'md':
+        case 'markdown': text = extractMarkdownText(await file.text()); break;
+        case 'srt':
+        case 'vtt': text = extractSubtitleText(await file.text()); break;
+        case 'txt': text = normalizeImportedText(await file.text()); break;
+        default: throw new Error(`Das Dateiformat .${extension} wird nicht unterstützt. Erlaubt sind ${SOURCE_FILE_ACCEPT.split(',').join(', ')}.`);
+    }
+    if (!text) throw new Error(extension === 'pdf'
+        ? 'Die PDF-Datei enthält keinen auslesbaren Text (z. B. ein eingescannter Text ohne Texterkennung).'
+        : 'Die Datei enthält keinen Text.');
+    return text;
+};
+
+/** A hint when an imported text is much longer than the exercise it is used for. */
+const getImportLengthWarning = (text: string, settings: Settings): string | null => {
+    if (settings.mode === 'Stegreifübersetzen') {
+        const target = getLengthTarget(settings);
+        if (text.length <= target.max * 1.5) return null;
+        return `Der Text ist mit ${text.length} Zeichen deutlich länger als eine übliche Stegreifübersetzung (${target.min}–${target.max} Zeichen).`;
+    }
+    const limit = getSpeechWordBudget('Prüfung', settings.sourceLang, settings.playbackRate);
+    const words = countWords(text);
+    if (words <= limit.max) return null;
+    const { maxMinutes } = SPEECH_DURATION_TARGETS['Prüfung'];
+    return `Der Text ist mit ${words} Wörtern länger als eine Prüfungsrede (bis ${maxMinutes} min, etwa ${limit.max} Wörter). Sie können ihn im Reiter „Originaltext“ kürzen.`;
+};
+
+// --- SOURCE AUDIO ---
+// A recorded speech can replace the synthesized one in the monologue modes.
+// Its reference text comes from an uploaded transcript or is transcribed by
+// the model, so that feedback still has an original to compare against.
+
+const SOURCE_AUDIO_ACCEPT = '.mp3,.wav,.ogg,.m4a';
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    m4a: 'audio/mp4',
+};
+
+// Keep in sync with MAX_AUDIO_BODY_BYTES in server/proxy.ts. The audio travels
+// as base64 (4/3 of its size) next to the prompt in one JSON body, so it may
+// use three quarters of the body minus room for the rest of the request.
+const MAX_AUDIO_REQUEST_BYTES = 20 * 1024 * 1024;
+const MAX_TRANSCRIPTION_AUDIO_BYTES = Math.floor(MAX_AUDIO_REQUEST_BYTES * 3 / 4) - 256 * 1024;
+const MAX_TRANSCRIPTION_AUDIO_LABEL = `${Math.floor(MAX_TRANSCRIPTION_AUDIO_BYTES / (1024 * 1024))} MB`;
+
+const getAudioMimeType = (file: File) =>
+    file.type.startsWith('audio/') ? file.type : AUDIO_MIME_TYPES[file.name.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+const readFileAsBase64 = (file: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const requestTranscription = async (file: File, lang: Language, prompt: string, signal?: AbortSignal): Promise<string> => {
+    const mimeType = getAudioMimeType(file);
+    if (!mimeType) throw new Error(`Das Audioformat von „${file.name}“ wird nicht unterstützt. Erlaubt sind ${SOURCE_AUDIO_ACCEPT.split(',').join(', ')}.`);
+    const audio = await readFileAsBase64(file);
+    const { text } = await withRetry('Transcription', () => apiFetch<{ text: string }>('/api/ai/transcribe', {
+        method: 'POST',
+        body: JSON.stringify({ prompt, audio, mimeType, language: getLanguage(lang).locale }),
+        signal,
+    }), { signal });
+    return text;
+};
+
+const transcribeSourceAudio = async (file: File, lang: Language, signal?: AbortSignal): Promise<string> => {
+    if (file.size > MAX_TRANSCRIPTION_AUDIO_BYTES) {
+        throw new Error(`Die Aufnahme ist zu groß für die automatische Transkription (höchstens ${MAX_TRANSCRIPTION_AUDIO_LABEL}). Bitte laden Sie ein Transkript dazu hoch.`);
+    }
+    const prompt = `Transkribiere die folgende Audioaufnahme einer Rede auf ${getPromptLanguageName(lang)} wortgetreu und mit korrekter Zeichensetzung. Lass Füllwörter, Versprecher und Wiederholungen weg, ändere aber nichts am Inhalt. Gliedere den Text in Absätze, die durch Leerzeilen getrennt sind. Gib nur den reinen Text aus, ohne Titel, Sprecherangaben oder Zeitmarken.`;
+    const transcript = normalizeImportedText(await requestTranscription(file, lang, prompt, signal));
+    if (!transcript) throw new Error('In der Aufnahme wurde keine Sprache erkannt.');
+    return transcript;
+};
+
+/** Transcribes a recording of the learner's interpretation; unlike the source, hesitations are kept. */
+const transcribeInterpretationAudio = async (file: File, lang: Language, signal?: AbortSignal): Promise<string> => {
+    if (file.size > MAX_TRANSCRIPTION_AUDIO_BYTES) {
+        throw new Error(`Die Aufnahme ist zu groß für die automatische Transkription (höchstens ${MAX_TRANSCRIPTION_AUDIO_LABEL}).`);
+    }
+    const prompt = `Transkribiere die folgende Audioaufnahme einer Verdolmetschung auf ${getPromptLanguageName(lang)} wortgetreu. Behalte Füllwörter, Versprecher, Wiederholungen und Selbstkorrekturen bei und korrigiere nichts. Gib nur den reinen Text ohne Zeichensetzung aus, ohne Titel, Sprecherangaben oder Zeitmarken.`;
+    const transcript = (await requestTranscription(file, lang, prompt, signal)).replace(/\s+/g, ' ').trim();
+    if (!transcript) throw new Error('In der Aufnahme wurde keine Sprache erkannt.');
+    return transcript;
+};
+
+// --- DIALOGUE SCRIPT IMPORT ---
+// Own dialogues for Gesprächsdolmetschen, either as JSON or as a table with
+// one turn per row. Problems are collected instead of thrown, so the preview
+// can list all of them at once.
+
+interface DialogueScript {
+    fileName: string;
+    segments: DialogueSegment[];
+    languages: Language[];
+    errors: string[];
+}
+
+interface DialogueScriptRow {
+    position: string;
+    speaker: string;
+    lang: string;
+    text: string;
+    type: string;
+}
+
+const DIALOGUE_FILE_ACCEPT = '.json,.csv,.tsv,.txt';
+
+const findLanguage = (value: string): Language | null =>
+    value ? LANGUAGES.find(lang => matchesLanguage(value, lang)) ?? null : null;
+
+const readScriptCell = (item: Record<string, unknown>, keys: string[]) => {
+    const key = keys.find(k => typeof item[k] === 'string' || typeof item[k] === 'number');
+    return key ? String(item[key]).trim() : '';
+};
+
+/**
+ * JSON scripts are either an array of turns ({speaker, lang, text}) or an
+ * object that declares the speakers with their language once:
+ * {"speakers": [{"name", "lang"}], "segments": [{"speaker", "text"}]}.
+ */
+const readJsonDialogueRows = (value: unknown, errors: string[]): DialogueScriptRow[] => {
+    const speakerLanguages = new Map<string, string>();
+    let turns: unknown = value;
+    if (isRecord(value)) {
+        if (Array.isArray(value.speakers)) {
+            value.speakers.forEach(speaker => {
+                if (isRecord(speaker)) speakerLanguages.set(readScriptCell(speaker, ['name', 'speaker']), readScriptCell(speaker, ['lang', 'language']));
+            });
+        }
+        turns = value.segments ?? value.turns ?? value.dialogue;
+    }
+    if (!Array.isArray(turns)) {
+        errors.push('Das JSON muss ein Array von Beiträgen oder ein Objekt mit "segments" sein.');
+        return [];
+    }
+    return turns.map((item, i): DialogueScriptRow => {
+        const position = `Beitrag ${i + 1}`;
+        if (!isRecord(item)) {
+            errors.push(`${position} muss ein Objekt sein.`);
+            return { position, speaker: '', lang: '', text: '', type: '' };
+        }
+        const speaker = readScriptCell(item, ['speaker', 'name']);
+        return {
+            position,
+            speaker,
+            lang: readScriptCell(item, ['lang', 'language']) || speakerLanguages.get(speaker) || '',
+            text: readScriptCell(item, ['text']),
+            type: readScriptCell(item, ['type']),
+        };
+    });
+};
+
+/** Tables need a header row naming the columns Sprecher, Sprache, Text and optionally Typ. */
+const readTableDialogueRows = (text: string, errors: string[]): DialogueScriptRow[] => {
+    const rows = parseCsvRows(text);
+    if (rows.length === 0) return [];
+    const header = rows[0];
+    const findColumn = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+    const speakerIndex = findColumn(/^(sprecher|sprecherin|person|rolle|speaker|role)$/i);
+    const langIndex = findColumn(/^(sprache|language|lang)$/i);
+    const textIndex = findColumn(/^(text|äußerung|beitrag|utterance)$/i);
+    const typeIndex = findColumn(/^(typ|type)$/i);
+    if (textIndex === -1 || (langIndex === -1 && speakerIndex === -1)) {
+        errors.push('Die Tabelle braucht eine Kopfzeile mit den Spalten "Sprecher", "Sprache" und "Text".');
+        return [];
+    }
+    const cell = (row: string[], index: number) => index === -1 ? '' : row[index] ?? '';
+    return rows.slice(1).map((row, i) => ({
+        position: `Zeile ${i + 2}`,
+        speaker: cell(row, speakerIndex),
+        lang: cell(row, langIndex),
+        text: cell(row, textIndex),
+        type: cell(row, typeIndex),
+    }));
+};
+
+/**
+ * Maps the rows to dialogue segments. A speaker keeps the language of their
+ * first turn when later rows leave it out. The first language of the script
+ * becomes the source language of the exercise; its turns are the questions.
+ */
+const buildDialogueScript = (fileName: string, rows: DialogueScriptRow[], errors: string[]): DialogueScript => {
+    const speakerLanguages = new Map<string, Language>();
+    const languages: Language[] = [];
+    const resolved = rows.map(row => {
+        let lang = findLanguage(row.lang);
+        if (row.lang && !lang) errors.push(`${row.position}: Die Sprache "${row.lang}" wird nicht unterstützt.`);
+        if (!row.lang) {
+            lang = speakerLanguages.get(row.speaker) ?? null;
+            if (!lang) errors.push(`${row.position}: Die Sprache fehlt.`);
+        }
+        if (!row.text) errors.push(`${row.position}: Der Text ist leer.`);
+        if (lang) {
+            if (row.speaker && !speakerLanguages.has(row.speaker)) speakerLanguages.set(row.speaker, lang);
+            if (!languages.includes(lang)) languages.push(lang);
+        }
+        return { row, lang };
+    });
+
+    if (rows.length === 0 && errors.length === 0) errors.push('Das Skript enthält keine Beiträge.');
+    else if (languages.length === 1) errors.push(`Das Skript enthält nur Beiträge auf ${languages[0]}. Ein Dialog braucht zwei Sprachen.`);
+    else if (languages.length > 2) errors.push(`Das Skript enthält mehr als zwei Sprachen (${languages.join(', ')}).`);
+
+    const segments = resolved
+        .filter((entry): entry is { row: DialogueScriptRow; lang: Language } => entry.lang !== null)
+        .map(({ row, lang }): DialogueSegment => {
+            const rawType = row.type.toLowerCase();
+            const type = rawType === 'frage' || rawType === 'question' ? 'Frage'
+                : rawType === 'antwort' || rawType === 'answer' ? 'Antwort'
+                : lang === languages[0] ? 'Frage' : 'Antwort';
+            return { type, text: row.text, lang, ...(row.speaker ? { speaker: row.speaker } : {}) };
+        });
+    return { fileName, segments, languages, errors };
+};
+
+const importDialogueScript = async (file: File): Promise<DialogueScript> => {
+    const text = (await file.text()).replace(/^\uFEFF/, '');
+    const errors: string[] = [];
+    const isJson = /\.json$/i.test(file.name) || /^\s*[[{]/.test(text);
+    let rows: DialogueScriptRow[];
+    if (isJson) {
+        let value: unknown;
+        try {
+            value = JSON.parse(text);
+        } catch (error) {
+            throw new Error(`Die Datei ist kein gültiges JSON (${(error as Error).message}).`);
+        }
+        rows = readJsonDialogueRows(value, errors);
+    } else {
+        rows = readTableDialogueRows(text, errors);
+    }
+    return buildDialogueScript(file.name, rows, errors);
+};
+
+/** Segment label for status lines, transcripts and feedback, e.g. "Frage 2" or "Dr. Weber (Beitrag 3)". */
+const getSegmentLabel = (segment: DialogueSegment, index: number) =>
+    segment.speaker ? `${segment.speaker} (Beitrag ${index + 1})` : `${segment.type} ${Math.floor(index / 2) + 1}`;
+
+// --- EAR-VOICE SPAN ---
+// The ear-voice span (décalage) is how far the interpreter lags behind the
+// speaker. While the learner interprets, we log when the source reached which
+// position (from the player's time updates) and how many words the learner had
+// spoken (from every recognition result, interim ones included). Source and
+// rendition are in different languages, so they are aligned by word count: the
+// learner's words are converted to source words with the ratio of the two
+// languages' speaking rates, and having said 120 of them, the learner is taken
+// to be at the 120th word of the source, counted from where the recording began.
+// The lag is the time between the source reaching that position and the
+// learner reaching it; it includes the delay of the speech recognition. Where
+// the source went on after the learner fell silent, the learner fell behind.
+
+interface SourceClockSample {
+    wall: number; // performance.now()
+    media: number; // position in the source in seconds at 1.0x
+}
+
+interface VoiceProgressSample {
+    wall: number;
+    words: number;
+}
+
+interface EarVoiceSpanPoint {
+    /** Seconds since the source started, when the learner reached the position. */
+    time: number;
+    lag: number;
+    sentenceIndex: number;
+}
+
+interface EarVoiceSpanReport {
+    points: EarVoiceSpanPoint[];
+    average: number;
+    maximum: number;
+    limit: number;
+    /**
+     * Source passages during which the learner lagged more than `limit` seconds,
+     * with a null lag for those the learner never reached; recordings have no text.
+     */
+    passages: { start: number; text: string; lag: number | null }[];
+}
+
+// Beyond these lags the learner has fallen too far behind to keep up.
+const EAR_VOICE_SPAN_LIMITS = { simultaneous: 5, shadowing: 3 };
+const RECORDING_PASSAGE_SECONDS = 10;
+
+/** The wall time at which the source played a position, or null when it was never played continuously. */
+const findWallTime = (clock: SourceClockSample[], media: number): number | null => {
+    for (let i = 1; i < clock.length; i++) {
+        const a = clock[i - 1];
+        const b = clock[i];
+        const mediaStep = b.media - a.media;
+        // A pause does not advance the source, a seek advances it faster than any playback rate.
+        const isContinuous = mediaStep > 0 && mediaStep <= (b.wall - a.wall) / 1000 * 2 + 0.3;
+        if (isContinuous && a.media <= media && media <= b.media) {
+            return a.wall + (b.wall - a.wall) * (media - a.media) / mediaStep;
+        }
+    }
+    return null;
+};
+
+const measureEarVoiceSpan = (
+    sentences: SpeechSentence[],
+    duration: number,
+    clock: SourceClockSample[],
+    progress: VoiceProgressSample[],
+    limit: number,
+    sourceLang: Language,
+    targetLang: Language,
+): EarVoiceSpanReport | null => {
+    const lastSample = progress[progress.length - 1];
+    if (!lastSample || clock.length < 2 || !Number.isFinite(duration)) return null;
+
+    // Recordings have no sentence map; they are cut into passages of equal length
+    // and their words are estimated from the source language's speaking rate.
+    const passages: SpeechSentence[] = sentences.length > 0 ? sentences : Array.from(
+        { length: Math.max(1, Math.ceil(duration / RECORDING_PASSAGE_SECONDS)) },
+        (_, i) => ({ text: '', paragraph: 0, start: i * RECORDING_PASSAGE_SECONDS }),
+    );
+    const passageEnd = (index: number) => passages[index + 1]?.start ?? duration;
+    const sourceWordsPerSecond = getLanguage(sourceLang).wordsPerMinute / 60;
+    const weights = passages.map((passage, i) => sentences.length > 0
+        ? Math.max(1, countWords(passage.text))
+        : Math.max(1, (passageEnd(i) - passage.start) * sourceWordsPerSecond));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const indexAt = (media: number) => {
+        const next = passages.findIndex(passage => passage.start > media);
+        return next === -1 ? passages.length - 1 : Math.max(0, next - 1);
+    };
+    /** Source words up to a position in the source. */
+    const wordsAt = (media: number) => {
+        const index = indexAt(media);
+        const length = passageEnd(index) - passages[index].start;
+        const fraction = length > 0 ? Math.min(1, (media - passages[index].start) / length) : 1;
+        return weights.slice(0, index).reduce((sum, weight) => sum + weight, 0) + weights[index] * fraction;
+    };
+    /** The position in the source after the given number of source words. */
+    const locate = (words: number) => {
+        let weightLeft = Math.min(words, totalWeight);
+        let index = 0;
+        while (index < passages.length - 1 && weightLeft > weights[index]) weightLeft -= weights[index++];
+        return { index, media: passages[index].start + (passageEnd(index) - passages[index].start) * weightLeft / weights[index] };
+    };
+
+    const startWords = wordsAt(clock[0].media);
+    const wordRatio = getLanguage(sourceLang).wordsPerMinute / getLanguage(targetLang).wordsPerMinute;
+    const firstWall = clock[0].wall;
+    const points = progress.flatMap(sample => {
+        const { index, media } = locate(startWords + sample.words * wordRatio);
+        const sourceWall = findWallTime(clock, media);
+        if (sourceWall === null) return [];
+        return [{ time: (sourceWall - firstWall) / 1000, lag: Math.max(0, (sample.wall - sourceWall) / 1000), sentenceIndex: index }];
+    });
+
+    // The source played on past the learner's last word: at its last position the
+    // learner was still where they stopped, and if they fell silent for longer than
+    // the limit, the passages in between count as not reached.
+    const reached = locate(startWords + lastSample.words * wordRatio);
+    const lastClock = clock[clock.length - 1];
+    const reachedWall = findWallTime(clock, reached.media);
+    const unreached: number[] = [];
+    if (lastClock.media > reached.media && lastClock.wall > lastSample.wall && reachedWall !== null) {
+        points.push({ time: (lastClock.wall - firstWall) / 1000, lag: (lastClock.wall - reachedWall) / 1000, sentenceIndex: reached.index });
+        if (lastClock.wall - lastSample.wall > limit * 1000) {
+            for (let index = reached.index + 1; index <= indexAt(lastClock.media); index++) unreached.push(index);
+        }
+    }
+    if (points.length === 0) return null;
+
+    const lagging = new Map<number, number | null>();
+    for (const point of points) {
+        if (point.lag > limit) lagging.set(point.sentenceIndex, Math.max(point.lag, lagging.get(point.sentenceIndex) ?? 0));
+    }
+    for (const index of unreached) lagging.set(index, null);
+    return {
+        points,
+        average: points.reduce((sum, point) => sum + point.lag, 0) / points.length,
+        maximum: Math.max(...points.map(point => point.lag)),
+        limit,
+        passages: [...lagging].sort(([a], [b]) => a - b)
+            .map(([index, lag]) => ({ start: passages[index].start, text: passages[index].text, lag })),
+    };
+};
+
+// --- MICROPHONE ---
+// The learner picks the microphone once per browser; the learner recording,
+// the Whisper recognizer and the level meter all open it by its device id.
+// The Web Speech API always listens to the system's default microphone, so
+// with the browser recognizer the choice only applies to the recording.
+
+const MICROPHONE_STORAGE_KEY = 'dolmetsch-trainer.microphone';
+
+const loadStoredMicrophone = (): string | null => {
+    try {
+        return localStorage.getItem(MICROPHONE_STORAGE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+/** Stores a choice of the learner; null removes it. */
+const writeStoredPreference = (key: string, value: string | null) => {
+    try {
+        if (value === null) localStorage.removeItem(key);
+        else localStorage.setItem(key, value);
+    } catch {
+        // Without storage the choice only holds until the page is reloaded.
+    }
+};
+
+/** getUserMedia constraints for the chosen microphone; null is the system default. */
+const getMicrophoneConstraints = (microphoneId: string | null): MediaStreamConstraints =>
+    ({ audio: microphoneId ? { deviceId: { exact: microphoneId } } : true });
+
+interface Microphones {
+    devices: MediaDeviceInfo[];
+    /** The chosen microphone, or null for the system default. */
+    microphoneId: string | null;
+    select(microphoneId: string | null): void;
+    /** Lists the devices again; browsers only name them once microphone access was granted. */
+    refresh(): void;
+}
+
+const useMicrophones = (): Microphones => {
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    const [storedId, setStoredId] = useState<string | null>(loadStoredMicrophone);
+
+    const refresh = () => {
+        navigator.mediaDevices?.enumerateDevices?.()
+            .then(all => setDevices(all.filter(device => device.kind === 'audioinput' && device.deviceId)))
+            .catch(error => console.warn("Listing the microphones failed:", error));
+    };
+
+    useEffect(() => {
+        if (!navigator.mediaDevices?.enumerateDevices) return;
+        refresh();
+        navigator.mediaDevices.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    }, []);
+
+    const select = (microphoneId: string | null) => {
+        setStoredId(microphoneId);
+        writeStoredPreference(MICROPHONE_STORAGE_KEY, microphoneId || null);
+    };
+
+    // Without access, the browser lists no device ids; an unplugged microphone falls back to the default.
+    const microphoneId = storedId && (devices.length === 0 || devices.some(device => device.deviceId === storedId)) ? storedId : null;
+    return { devices, microphoneId, select, refresh };
+};
+
+// The meter shows -60 dBFS as empty and 0 dBFS as full.
+const METER_FLOOR_DB = -60;
+const CLIPPING_LEVEL = 0.97;
+
+/** Input level and waveform of the microphone while it is active, drawn once per frame. */
+const MicrophoneLevelMeter = ({ microphoneId, isActive, onOpen }: { microphoneId: string | null; isActive: boolean; onOpen: () => void }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const levelRef = useRef<HTMLDivElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isActive) return;
+        let isCancelled = false;
+        let frame = 0;
+        let stream: MediaStream | null = null;
+        let context: AudioContext | null = null;
+        setError(null);
+
+        (async () => {
+            try {
+                stream = await navigator.mediaDevices.getUserMedia(getMicrophoneConstraints(microphoneId));
+            } catch (error) {
+                console.warn("Opening the microphone for the level meter failed:", error);
+                if (!isCancelled) setError("Das Mikrofon ist nicht verfügbar.");
+                return;
+            }
+            if (isCancelled) {
+                stream.getTracks().forEach(track => track.stop());
+                return;
+            }
+            onOpen();
+            context = new AudioContext();
+            const analyser = new AnalyserNode(context, { fftSize: 2048 });
+            context.createMediaStreamSource(stream).connect(analyser);
+            const samples = new Float32Array(analyser.fftSize);
+            const canvas = canvasRef.current;
+            const color = canvas ? getComputedStyle(canvas).color : '';
+
+            const draw = () => {
+                analyser.getFloatTimeDomainData(samples);
+                let sumOfSquares = 0;
+                let peak = 0;
+                for (const sample of samples) {
+                    sumOfSquares += sample * sample;
+                    peak = Math.max(peak, Math.abs(sample));
+                }
+                const decibels = 20 * Math.log10(Math.sqrt(sumOfSquares / samples.length) || 1e-6);
+                const level = Math.min(1, Math.max(0, 1 - decibels / METER_FLOOR_DB));
+                if (levelRef.current) {
+                    levelRef.current.style.width = `${level * 100}%`;
+                    levelRef.current.classList.toggle('is-clipping', peak >= CLIPPING_LEVEL);
+                }
+                const graphics = canvas?.getContext('2d');
+                if (canvas && graphics) {
+                    const { width, height } = canvas;
+                    graphics.clearRect(0, 0, width, height);
+                    graphics.strokeStyle = color;
+                    graphics.beginPath();
+                    samples.forEach((sample, i) => {
+                        const x = (i / (samples.length - 1)) * width;
+                        const y = (1 - sample) * height / 2;
+                        if (i === 0) graphics.moveTo(x, y);
+                        else graphics.lineTo(x, y);
+                    });
+                    graphics.stroke();
+                }
+                frame = requestAnimationFrame(draw);
+            };
+            draw();
+        })();
+
+        return () => {
+            isCancelled = true;
+            cancelAnimationFrame(frame);
+            stream?.getTracks().forEach(track => track.stop());
+            if (context && context.state !== 'closed') context.close();
+            if (levelRef.current) levelRef.current.style.width = '0';
+            const canvas = canvasRef.current;
+            canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        };
+    }, [isActive, microphoneId]);
+
+    return (
+        <div className={`microphone-meter ${isActive ? 'is-active' : ''}`}>
+            <canvas ref={canvasRef} className="microphone-waveform" width={160} height={32} />
+            <div className="microphone-level" title="Eingangspegel"><div ref={levelRef} className="microphone-level-fill" /></div>
+            {error && <span className="inline-error">{error}</span>}
+        </div>
+    );
+};
+
+/** Microphone picker with a level meter; the microphone can be tested before recording. */
+const MicrophoneControls = ({ microphones, isRecording, backendId }: { microphones: Microphones; isRecording: boolean; backendId: RecognitionBackendId }) => {
+    const [isTesting, setIsTesting] = useState(false);
+    useEffect(() => {
+        if (isRecording) setIsTesting(false);
+    }, [isRecording]);
+
+    return (
+        <div className="microphone-controls">
+            <select
+                value={microphones.microphoneId ?? ''}
+                onChange={e => microphones.select(e.target.value || null)}
+                disabled={isRecording}
+                aria-label="Mikrofon"
+            >
+                <option value="">Standardmikrofon</option>
+                {microphones.devices.map((device, i) => (
+                    <option key={device.deviceId} value={device.deviceId}>{device.label || `Mikrofon ${i + 1}`}</option>
+                ))}
+            </select>
+            <MicrophoneLevelMeter microphoneId={microphones.microphoneId} isActive={isRecording || isTesting} onOpen={microphones.refresh} />
+            {!isRecording && (
+                <button className="btn btn-secondary" onClick={() => setIsTesting(testing => !testing)}>
+                    {isTesting ? 'Test beenden' : 'Mikrofon testen'}
+                </button>
+            )}
+            {backendId === 'browser' && microphones.microphoneId && (
+                <span className="microphone-hint">Die Spracherkennung des Browsers hört immer auf das Standardmikrofon des Systems.</span>
+            )}
+        </div>
+    );
+};
+
+// --- LEARNER RECORDINGS ---
+// Speech recognition keeps only text, so the microphone is also recorded with
+// MediaRecorder. Students can listen to their delivery, instructors can judge
+// prosody, and a dual-track playback puts the source speech on the left and
+// the interpretation on the right channel, like a booth recording. Recordings
+// live as long as the exercise; they can be downloaded to keep them.
+
+interface LearnerRecording {
+    url: string;
+    mimeType: string;
+    /** Position in the source speech (seconds at 1.0x) when the recording started; null without one. */
+    sourceTime: number | null;
+}
+
+interface VoiceRecordingSession {
+    stop(): Promise<Blob>;
+}
+
+/** Starts recording the microphone; resolves with null when the browser cannot record or access is denied. */
+const startVoiceRecording = async (microphoneId: string | null = null): Promise<VoiceRecordingSession | null> => {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+        console.warn("MediaRecorder is not supported in this browser; only the transcript is kept.");
+        return null;
+    }
+    try {
+        const stream = await navigator.mediaDevices.getUserMedia(getMicrophoneConstraints(microphoneId));
+        const recorder = new MediaRecorder(stream);
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = event => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.start();
+        return {
+            stop: () => new Promise<Blob>(resolve => {
+                const finish = () => {
+                    stream.getTracks().forEach(track => track.stop());
+                    resolve(new Blob(chunks, { type: recorder.mimeType }));
+                };
+                if (recorder.state === 'inactive') {
+                    finish();
+                    return;
+                }
+                recorder.onstop = finish;
+                recorder.stop();
+            }),
+        };
+    } catch (error) {
+        console.warn("Recording the microphone failed:", error);
+        return null;
+    }
+};
+
+/**
+ * Records the learner next to speech recognition, one recording per key: 0 for
+ * a whole exercise, or the index of a segment. A new recording for a key
+ * replaces the old one; an uploaded recording is attached the same way.
+ */
+const useLearnerRecorder = (microphoneId: string | null = null) => {
+    const [recordings, setRecordings] = useState<Record<number, LearnerRecording>>({});
+    const activeRef = useRef<{ key: number; sourceTime: number | null; session: Promise<VoiceRecordingSession | null> } | null>(null);
+    const urlsRef = useRef<string[]>([]);
+
+    useEffect(() => () => {
+        activeRef.current?.session.then(session => session?.stop());
+        urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    }, []);
+
+    const start = (key: number, sourceTime: number | null = null) => {
+        activeRef.current?.session.then(session => session?.stop());
+        activeRef.current = { key, sourceTime, session: startVoiceRecording(microphoneId) };
+    };
+
+    const keep = (key: number, blob: Blob, sourceTime: number | null) => {
+        const url = URL.createObjectURL(blob);
+        urlsRef.current.push(url);
+        setRecordings(prev => ({ ...prev, [key]: { url, mimeType: blob.type, sourceTime } }));
+    };
+
+    const stop = async () => {
+        const active = activeRef.current;
+        activeRef.current = null;
+        const session = await active?.session;
+        if (!active || !session) return;
+        const blob = await session.stop();
+        if (blob.size > 0) keep(active.key, blob, active.sourceTime);
+    };
+
+    const attach = (key: number, recording: Blob) => keep(key, recording, null);
+
+    const clear = () => {
+        urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+        urlsRef.current = [];
+        setRecordings({});
+    };
+
+    return { recordings, start, stop, attach, clear };
+};
+
+const getRecordingFileName = (recording: LearnerRecording, name: string) => {
+    const extension = recording.mimeType.includes('ogg') ? 'ogg' : recording.mimeType.includes('mp4') ? 'm4a' : 'webm';
+    return `${name}.${extension}`;
+};
+
+/**
+ * Plays the source speech on the left and the recording on the right channel.
+ * The recording starts where it started during practice, so the source is
+ * played at the practice playback rate. Resolves with a function that stops
+ * the playback.
+ */
+const startDualTrackPlayback = async (sourceUrl: string, recording: LearnerRecording, playbackRate: number, onEnded: () => void): Promise<() => void> => {
+    const context = new AudioContext();
+    const close = () => {
+        if (context.state !== 'closed') context.close();
+    };
+    const decode = async (url: string) => context.decodeAudioData(await (await fetch(url)).arrayBuffer());
+    try {
+        const [source, learner] = await Promise.all([decode(sourceUrl), decode(recording.url)]);
+        let playing = 2;
+        const playOnChannel = (buffer: AudioBuffer, pan: number, delay: number, rate: number) => {
+            const node = new AudioBufferSourceNode(context, { buffer, playbackRate: rate });
+            node.connect(new StereoPannerNode(context, { pan })).connect(context.destination);
+            node.onended = () => {
+                if (--playing > 0) return;
+                close();
+                onEnded();
+            };
+            node.start(context.currentTime + delay);
+        };
+        playOnChannel(source, -1, 0, playbackRate);
+        playOnChannel(learner, 1, (recording.sourceTime ?? 0) / playbackRate, 1);
+        return close;
+    } catch (error) {
+        close();
+        throw error;
+    }
+};
+
+// --- SPEECH RECOGNITION ---
+// One recognition service for all practice modes. The browser ends a Web
+// Speech session after silence, on network hiccups and after about a minute,
+// so the service restarts it until the learner stops and reports errors
+// instead of silently ending. The backend is pluggable: a Whisper-compatible
+// server (WHISPER_BASE_URL on the backend) or an uploaded recording of the
+// interpretation can replace the browser. Besides the text, every backend
+// reports segments with their confidence, alternatives and timing, so that
+// students can tell recognition errors from their own.
+
+type RecognitionErrorCode = 'not-allowed' | 'no-speech' | 'network' | 'audio-capture' | 'language-not-supported' | 'unsupported' | 'service';
+
+interface RecognitionError {
+    code: RecognitionErrorCode;
+    message: string;
+    /** Fatal errors end the session; the others are shown while recognition goes on. */
+    fatal: boolean;
+}
+
+/** A stretch of recognized speech with what the recognizer knows about it. */
+interface TranscriptSegment {
+    /** As recognized, including the leading space that separates it from the previous segment. */
+    text: string;
+    /** 0..1; null when the backend reports none. */
+    confidence: number | null;
+    /** Other hypotheses of the recognizer, best first. */
+    alternatives: string[];
+    /** Seconds since the recording started. */
+    start: number;
+    end: number;
+}
+
+/**
+ * Final text is appended to what was recognized before; interim text replaces
+ * the previous interim text. `segments` are the final text in detail.
+ */
+interface RecognitionUpdate {
+    final: string;
+    interim: string;
+    segments: TranscriptSegment[];
+}
+
+interface RecognitionHandlers {
+    onUpdate(update: RecognitionUpdate): void;
+    onError(error: RecognitionError): void;
+    /** Called once: after stop(), after a fatal error, or when a recording has been transcribed. */
+    onEnd(): void;
+}
+
+interface RecognitionSession {
+    stop(): void;
+}
+
+interface RecognitionBackend {
+    /** `microphoneId` is only honoured by backends that open the microphone themselves. */
+    start(lang: Language, handlers: RecognitionHandlers, microphoneId: string | null): RecognitionSession;
+}
+
+const RECOGNITION_BACKEND_LABELS: Record<RecognitionBackendId, string> = {
+    browser: "Browser (Web Speech API)",
+    whisper: "Whisper-Server",
+};
+
+const RECOGNITION_ERROR_MESSAGES: Record<RecognitionErrorCode, string> = {
+    'not-allowed': "Der Zugriff auf das Mikrofon wurde verweigert. Bitte erlauben Sie ihn in den Einstellungen des Browsers.",
+    'no-speech': "Es wurde keine Sprache erkannt. Die Aufnahme läuft weiter.",
+    network: "Die Spracherkennung ist nicht erreichbar. Bitte prüfen Sie Ihre Internetverbindung.",
+    'audio-capture': "Es wurde kein Mikrofon gefunden.",
+    'language-not-supported': "Die Spracherkennung des Browsers unterstützt diese Sprache nicht. Wählen Sie in den Einstellungen den Whisper-Server.",
+    unsupported: "Dieser Browser unterstützt keine Spracherkennung. Wählen Sie in den Einstellungen den Whisper-Server oder laden Sie eine Aufnahme hoch.",
+    service: "Die Spracherkennung ist fehlgeschlagen.",
+};
+
+// Below this confidence a segment is marked as uncertain in the transcript and in the feedback prompt.
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+const isUncertainSegment = (segment: TranscriptSegment) => segment.confidence !== null && segment.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+const joinTranscriptSegments = (segments: TranscriptSegment[]) => segments.map(segment => segment.text).join('');
+
+/** Replaces a segment by one of its alternatives. The learner chose it, so it no longer counts as uncertain. */
+const chooseSegmentAlternative = (segment: TranscriptSegment, text: string): TranscriptSegment => ({
+    ...segment,
+    text: segment.text.match(/^\s*/)![0] + text,
+    confidence: 1,
+    alternatives: [segment.text.trim(), ...segment.alternatives].filter(option => option !== text),
+});
+
+/**
+ * Finds the recognized words in a transcript that was punctuated afterwards,
+ * ignoring case, punctuation and spacing; returns null when they were changed.
+ */
+const replaceRecognizedText = (transcript: string, recognized: string, replacement: string) => {
+    const words = recognized.trim().split(/\s+/).filter(Boolean).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (words.length === 0) return null;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${words.join('[\\s\\p{P}]+')}(?![\\p{L}\\p{N}])`, 'iu');
+    const match = pattern.exec(transcript);
+    if (!match) return null;
+    // Punctuation may have capitalized the passage at the start of a sentence.
+    const text = replacement.trim();
+    const capitalized = match[0][0] !== match[0][0].toLowerCase() ? text.charAt(0).toUpperCase() + text.slice(1) : text;
+    return transcript.slice(0, match.index) + capitalized + transcript.slice(match.index + match[0].length);
+};
+
+/** Passages the recognizer was unsure about, for the feedback prompts. */
+const describeUncertainSegments = (segments: TranscriptSegment[]) =>
+    segments.filter(isUncertainSegment).map(segment => `„${segment.text.trim()}“ (Sicherheit ${Math.round(segment.confidence! * 100)} %)`);
+
+const buildUncertaintyPrompt = (passages: string[]) => {
+    if (passages.length === 0) return '';
+    return `
+        Unsichere Spracherkennung:
+        Die Verdolmetschung wurde automatisch erkannt. Bei folgenden Stellen war die Spracherkennung unsicher; Abweichungen dort können Erkennungsfehler sein statt Fehler des Benutzers. Bewerte sie zurückhaltend und weise in der Fehleranalyse darauf hin, wenn ein Fehler an einer solchen Stelle liegt:
+${passages.map(passage => `        - ${passage}`).join('\n')}
+    `;
+};
+
+const recognitionError = (code: RecognitionErrorCode, fatal: boolean, message = RECOGNITION_ERROR_MESSAGES[code]): RecognitionError => ({ code, message, fatal });
+
+const MAX_RECOGNITION_NETWORK_RETRIES = 3;
+// Sessions that end right after they started point to a broken microphone or service.
+const MAX_RAPID_RECOGNITION_RESTARTS = 5;
+const RAPID_RESTART_MS = 1000;
+
+const browserRecognitionBackend: RecognitionBackend = {
+    start(lang, handlers) {
+        const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
+        if (!SpeechRecognitionAPI) {
+            handlers.onError(recognitionError('unsupported', true));
+            handlers.onEnd();
+            return { stop: () => {} };
+        }
+        let state: 'running' | 'stopping' | 'ended' = 'running';
+        let isActive = false;
+        let startedAt = 0;
+        let networkFailures = 0;
+        let rapidRestarts = 0;
+        let restartTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const recognition = new SpeechRecognitionAPI();
+        recognition.continuous = true;
+        recognition.interimResults = true;
+        recognition.maxAlternatives = 3;
+        recognition.lang = getLanguage(lang).locale;
+        // The Web Speech API has no timestamps; a segment runs from its first interim result until it is final.
+        const sessionStartedAt = performance.now();
+        let segmentStartedAt: number | null = null;
+        let lastFinalAt = sessionStartedAt;
+
+        const finish = () => {
+            if (state === 'ended') return;
+            state = 'ended';
+            clearTimeout(restartTimer);
+            handlers.onEnd();
+        };
+        const fail = (error: RecognitionError) => {
+            if (state === 'ended') return;
+            handlers.onError(error);
+            state = 'stopping';
+            if (isActive) recognition.stop();
+            else finish();
+        };
+        const begin = () => {
+            try {
+                recognition.start();
+                isActive = true;
+                startedAt = performance.now();
+            } catch (error) {
+                console.error("Speech recognition could not be started:", error);
+                fail(recognitionError('service', true));
+            }
+        };
+
+        recognition.onresult = (event: SpeechRecognitionEvent) => {
+            networkFailures = 0;
+            const now = performance.now();
+            let final = '';
+            let interim = '';
+            const segments: TranscriptSegment[] = [];
+            for (let i = event.resultIndex; i < event.results.length; ++i) {
+                const result = event.results[i];
+                if (result.isFinal) {
+                    const [best, ...others] = Array.from(result);
+                    final += best.transcript;
+                    segments.push({
+                        text: best.transcript,
+                        // Some browsers report 0 when they have no confidence.
+                        confidence: best.confidence > 0 ? best.confidence : null,
+                        alternatives: Array.from(new Set(others.map(other => other.transcript.trim()))).filter(option => option && option !== best.transcript.trim()),
+                        start: ((segmentStartedAt ?? lastFinalAt) - sessionStartedAt) / 1000,
+                        end: (now - sessionStartedAt) / 1000,
+                    });
+                } else {
+                    interim += result[0].transcript;
+                }
+            }
+            if (segments.length > 0) {
+                segmentStartedAt = null;
+                lastFinalAt = now;
+            }
+            if (interim && segmentStartedAt === null) segmentStartedAt = now;
+            handlers.onUpdate({ final, interim, segments });
+        };
+        recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+            switch (event.error) {
+                case 'aborted':
+                    return;
+                case 'no-speech':
+                    handlers.onError(recognitionError('no-speech', false));
+                    return;
+                case 'network':
+                    networkFailures++;
+                    if (networkFailures > MAX_RECOGNITION_NETWORK_RETRIES) {
+                        fail(recognitionError('network', true));
+                    } else {
+                        handlers.onError(recognitionError('network', false, `${RECOGNITION_ERROR_MESSAGES.network} Neuer Versuch ${networkFailures} von ${MAX_RECOGNITION_NETWORK_RETRIES}...`));
+                    }
+                    return;
+                case 'not-allowed':
+                case 'service-not-allowed':
+                    fail(recognitionError('not-allowed', true));
+                    return;
+                case 'audio-capture':
+                    fail(recognitionError('audio-capture', true));
+                    return;
+                case 'language-not-supported':
+                    fail(recognitionError('language-not-supported', true));
+                    return;
+                default:
+                    console.error("Speech recognition error", event.error, event.message);
+                    fail(recognitionError('service', true, `${RECOGNITION_ERROR_MESSAGES.service} (${event.error})`));
+            }
+        };
+        recognition.onend = () => {
+            isActive = false;
+            if (state !== 'running') {
+                finish();
+                return;
+            }
+            rapidRestarts = performance.now() - startedAt < RAPID_RESTART_MS ? rapidRestarts + 1 : 0;
+            if (rapidRestarts > MAX_RAPID_RECOGNITION_RESTARTS) {
+                fail(recognitionError('service', true, `${RECOGNITION_ERROR_MESSAGES.service} Sie wurde mehrmals hintereinander sofort beendet.`));
+                return;
+            }
+            // Network errors are retried with a growing delay, everything else at once.
+            restartTimer = setTimeout(() => {
+                if (state === 'running') begin();
+                else finish();
+            }, networkFailures > 0 ? 1000 * 2 ** (networkFailures - 1) : 0);
+        };
+
+        begin();
+        return {
+            stop: () => {
+                if (state !== 'running') return;
+                state = 'stopping';
+                clearTimeout(restartTimer);
+                if (isActive) recognition.stop();
+                else finish();
+            },
+        };
+    },
+};
+
+/**
+ * Sends a recording of the learner to the Whisper-compatible server behind
+ * /api/stt/recognize. Segment times are shifted by `offset`, the position of
+ * the recording in the session.
+ */
+const recognizeWithWhisper = async (audio: Blob, lang: Language, offset: number, signal?: AbortSignal): Promise<TranscriptSegment[]> => {
+    const { segments } = await apiFetch<{ text: string; segments: { text: string; start: number; end: number; confidence: number | null }[] }>('/api/stt/recognize', {
+        method: 'POST',
+        body: JSON.stringify({ audio: await readFileAsBase64(audio), mimeType: audio.type || 'audio/webm', language: getLanguage(lang).locale }),
+        signal,
+    });
+    return segments.map(segment => ({ ...segment, alternatives: [], start: offset + segment.start, end: offset + segment.end }));
+};
+
+/** Separates segments by a space, except the first one of the transcript. */
+const spaceSegments = (segments: TranscriptSegment[], hasText: boolean) =>
+    segments.map((segment, i) => ({ ...segment, text: `${hasText || i > 0 ? ' ' : ''}${segment.text.trim()}` }));
+
+const describeWhisperError = (error: unknown) => error instanceof ApiError && error.code === 'stt_not_configured'
+    ? "Auf dem Server ist kein Whisper-Server eingerichtet (WHISPER_BASE_URL). Wählen Sie in den Einstellungen die Spracherkennung des Browsers."
+    : describeAiError(error);
+
+// Whisper transcribes whole files, so the microphone is recorded in short
+// chunks that are recognized one after the other while the next is recorded.
+const WHISPER_CHUNK_SECONDS = 8;
+const MAX_WHISPER_FAILURES = 3;
+
+const whisperRecognitionBackend: RecognitionBackend = {
+    start(lang, handlers, microphoneId) {
+        const controller = new AbortController();
+        let isStopped = false;
+        let isEnded = false;
+        let stream: MediaStream | null = null;
+        let recorder: MediaRecorder | null = null;
+        let chunkTimer: ReturnType<typeof setTimeout> | undefined;
+        let queue = Promise.resolve();
+        let pendingChunks = 0;
+        let failures = 0;
+        let hasText = false;
+        const sessionStartedAt = performance.now();
+
+        const finish = () => {
+            if (isEnded) return;
+            isEnded = true;
+            clearTimeout(chunkTimer);
+            stream?.getTracks().forEach(track => track.stop());
+            handlers.onEnd();
+        };
+        const fail = (error: RecognitionError) => {
+            if (isEnded) return;
+            isStopped = true;
+            controller.abort();
+            handlers.onError(error);
+            if (recorder?.state === 'recording') {
+                recorder.onstop = null;
+                recorder.stop();
+            }
+            finish();
+        };
+
+        const recognizeChunk = (chunk: Blob, offset: number) => {
+            pendingChunks++;
+            handlers.onUpdate({ final: '', interim: '…', segments: [] });
+            queue = queue.then(async () => {
+                try {
+                    const segments = spaceSegments(await recognizeWithWhisper(chunk, lang, offset, controller.signal), hasText);
+                    failures = 0;
+                    pendingChunks--;
+                    handlers.onUpdate({ final: joinTranscriptSegments(segments), interim: pendingChunks > 0 ? '…' : '', segments });
+                    if (segments.length > 0) hasText = true;
+                } catch (error) {
+                    pendingChunks--;
+                    if (isCancellation(error)) return;
+                    // Neither a missing server nor an exhausted quota recovers within the session.
+                    if (error instanceof ApiError && (error.code === 'stt_not_configured' || error.code === 'quota_exceeded')) {
+                        fail(recognitionError('service', true, describeWhisperError(error)));
+                        return;
+                    }
+                    failures++;
+                    const recognitionFailure = recognitionError('network', failures >= MAX_WHISPER_FAILURES, `Ein Abschnitt Ihrer Aufnahme konnte nicht erkannt werden. ${describeWhisperError(error)}`);
+                    if (recognitionFailure.fatal) fail(recognitionFailure);
+                    else handlers.onError(recognitionFailure);
+                }
+            });
+        };
+
+        const recordChunk = (source: MediaStream) => {
+            const chunkRecorder = new MediaRecorder(source);
+            const offset = (performance.now() - sessionStartedAt) / 1000;
+            const parts: Blob[] = [];
+            chunkRecorder.ondataavailable = event => {
+                if (event.data.size > 0) parts.push(event.data);
+            };
+            chunkRecorder.onstop = () => {
+                const chunk = new Blob(parts, { type: chunkRecorder.mimeType });
+                if (chunk.size > 0) recognizeChunk(chunk, offset);
+                if (isStopped) queue.then(finish);
+                else recordChunk(source);
+            };
+            recorder = chunkRecorder;
+            chunkRecorder.start();
+            chunkTimer = setTimeout(() => chunkRecorder.stop(), WHISPER_CHUNK_SECONDS * 1000);
+        };
+
+        (async () => {
+            if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+                fail(recognitionError('unsupported', true, "Dieser Browser kann das Mikrofon nicht aufnehmen."));
+                return;
+            }
+            try {
+                stream = await navigator.mediaDevices.getUserMedia(getMicrophoneConstraints(microphoneId));
+            } catch (error) {
+                fail(recognitionError((error as DOMException).name === 'NotAllowedError' ? 'not-allowed' : 'audio-capture', true));
+                return;
+            }
+            if (isStopped) finish();
+            else recordChunk(stream);
+        })();
+
+        return {
+            stop: () => {
+                if (isStopped) return;
+                isStopped = true;
+                clearTimeout(chunkTimer);
+                if (recorder?.state === 'recording') recorder.stop();
+            },
+        };
+    },
+};
+
+const RECOGNITION_BACKENDS: Record<RecognitionBackendId, RecognitionBackend> = {
+    browser: browserRecognitionBackend,
+    whisper: whisperRecognitionBackend,
+};
+
+/**
+ * Recognizes an uploaded recording of the interpretation instead of the
+ * microphone: on the Whisper server when it is the chosen backend, otherwise
+ * with the `transcription` task.
+ */
+const createRecordingRecognitionBackend = (recording: File, backendId: RecognitionBackendId): RecognitionBackend => ({
+    start(lang, handlers) {
+        const controller = new AbortController();
+        const recognize = backendId === 'whisper'
+            ? recognizeWithWhisper(recording, lang, 0, controller.signal).then(segments => spaceSegments(segments, false))
+            : transcribeInterpretationAudio(recording, lang, controller.signal)
+                .then(text => [{ text, confidence: null, alternatives: [], start: 0, end: 0 }]);
+        recognize
+            .then(segments => handlers.onUpdate({ final: joinTranscriptSegments(segments), interim: '', segments }))
+            .catch(error => {
+                if (isCancellation(error)) return;
+                console.error("Recognizing the uploaded recording failed:", error);
+                handlers.onError(recognitionError('service', true, `Die Aufnahme konnte nicht erkannt werden. ${backendId === 'whisper' ? describeWhisperError(error) : (error as Error).message}`));
+            })
+            .finally(() => handlers.onEnd());
+        return { stop: () => controller.abort() };
+    },
+});
+
+/**
+ * Runs one recognition session at a time. The handlers are read from a ref, so
+ * a session always reaches the latest render: restarts and late results never
+ * see a stale `isRecording`. `onSessionEnd` is called when a session ends
+ * without stop(), i.e. after a fatal error or once a recording is recognized.
+ */
+const useSpeechRecognition = (backendId: RecognitionBackendId, handlers: { onUpdate: (update: RecognitionUpdate) => void; onSessionEnd?: () => void }, microphoneId: string | null = null) => {
+    const [isListening, setIsListening] = useState(false);
+    const [interim, setInterim] = useState('');
+    const [error, setError] = useState<RecognitionError | null>(null);
+    const handlersRef = useRef(handlers);
+    handlersRef.current = handlers;
+    const activeRef = useRef<{ session: RecognitionSession | null; isStopped: boolean } | null>(null);
+
+    const stop = () => {
+        const active = activeRef.current;
+        if (!active || active.isStopped) return;
+        active.isStopped = true;
+        active.session?.stop();
+    };
+
+    useEffect(() => () => {
+        stop();
+        activeRef.current = null;
+    }, []);
+
+    const start = (lang: Language, backend: RecognitionBackend = RECOGNITION_BACKENDS[backendId]) => {
+        stop();
+        const active: { session: RecognitionSession | null; isStopped: boolean } = { session: null, isStopped: false };
+        activeRef.current = active;
+        setError(null);
+        setInterim('');
+        setIsListening(true);
+        active.session = backend.start(lang, {
+            onUpdate: update => {
+                if (activeRef.current !== active) return;
+                // Recognized speech makes a passing warning such as "no-speech" obsolete.
+                if (update.final.trim() || update.interim.trim()) setError(previous => previous?.fatal ? previous : null);
+                setInterim(update.interim);
+                handlersRef.current.onUpdate(update);
+            },
+            onError: recognitionFailure => {
+                if (activeRef.current !== active) return;
+                console.warn("Speech recognition:", recognitionFailure.code, recognitionFailure.message);
+                setError(recognitionFailure);
+            },
+            onEnd: () => {
+                if (activeRef.current !== active) return;
+                activeRef.current = null;
+                setIsListening(false);
+                setInterim('');
+                if (!active.isStopped) handlersRef.current.onSessionEnd?.();
+            },
+        }, microphoneId);
+    };
+
+    return { isListening, interim, error, start, stop };
+};
+
+/** Lets the learner upload a recording of the interpretation instead of speaking into the microphone. */
+const RecordingUploadButton = ({ onUpload, disabled }: { onUpload: (file: File) => void; disabled: boolean }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    return (
+        <>
+            <button className="btn btn-secondary" onClick={() => inputRef.current?.click()} disabled={disabled}>Verdolmetschung hochladen</button>
+            <input type="file" ref={inputRef} accept={SOURCE_AUDIO_ACCEPT} style={{ display: 'none' }} onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onUpload(file);
+            }} />
+        </>
+    );
+};
+
+const LIVE_CAPTION_STORAGE_KEY = 'dolmetsch-trainer.live-caption';
+// Only the end of the text fits into the caption pane.
+const LIVE_CAPTION_CHARS = 280;
+
+/** Whether the live caption is shown; learners practising for an exam can hide it for good. */
+const useLiveCaptionPreference = () => {
+    const [isVisible, setIsVisible] = useState(() => {
+        try {
+            return localStorage.getItem(LIVE_CAPTION_STORAGE_KEY) !== 'hidden';
+        } catch {
+            return true;
+        }
+    });
+    const toggle = () => {
+        setIsVisible(!isVisible);
+        writeStoredPreference(LIVE_CAPTION_STORAGE_KEY, isVisible ? 'hidden' : 'visible');
+    };
+    return { isVisible, toggle };
+};
+
+/** What the recognizer has heard so far, so that learners see while speaking that the microphone works. */
+const LiveCaption = ({ text, interim, lang }: { text: string; interim: string; lang: Language }) => {
+    const tail = text.length > LIVE_CAPTION_CHARS ? `…${text.slice(-LIVE_CAPTION_CHARS).replace(/^\S*\s/, '')}` : text;
+    return (
+        <div className="live-caption" dir={getTextDirection(lang)} aria-live="polite">
+            {tail || interim ? <>{tail}<em>{interim}</em></> : <span className="live-caption-placeholder">Noch nichts erkannt...</span>}
+        </div>
+    );
+};
+
+// --- DELIVERY METRICS ---
+// Delivery is measured from the recognized segments rather than judged from
+// the transcript alone: speaking rate and pauses come from the recognizer's
+// timings, fillers and correction phrases from the per-language lists in the
+// registry, restarts from words the learner said twice in a row. The model
+// only rates the numbers, so the feedback names what actually happened.
+
+/** The recognized segments of one recording and the language it was spoken in. */
+interface DeliveryTake {
+    segments: TranscriptSegment[];
+    lang: Language;
+}
+
+const LONG_PAUSE_SECONDS = 3;
+// Restarts are repeated sequences of up to this many words ("we will we will").
+const MAX_RESTART_WORDS = 3;
+// A single repeated word only counts as a restart when it is this long:
+// short doublings like "die die" or "that that" are usually grammatical.
+const MIN_REPEATED_WORD_LENGTH = 5;
+
+/** Counts a filler or phrase as a whole word; Han script has no spaces, so there any occurrence counts. */
+const countPhrase = (text: string, phrase: string) => {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    const pattern = /\p{Script=Han}/u.test(phrase) ? escaped : `(?<![\\p{L}\\p{M}\\p{N}-])${escaped}(?![\\p{L}\\p{M}\\p{N}-])`;
+    return text.match(new RegExp(pattern, 'giu'))?.length ?? 0;
 };
 
-const LANG_MAP: Record<Language, string> = {
-  "Deutsch": "de-DE",
-  "Englisch": "en-US",
-  "Russisch": "ru-RU",
-  "Spanisch": "es-ES",
-  "Französisch": "fr-FR"
+const findRestarts = (text: string, fillers: readonly string[]) => {
+    const tokens = text.toLowerCase().match(/\p{Script=Han}|[\p{L}\p{M}\p{N}'’-]+/gu) ?? [];
+    const isFiller = new Set(fillers.map(filler => filler.toLowerCase()));
+    const restarts: string[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        for (let n = MAX_RESTART_WORDS; n >= 1; n--) {
+            const phrase = tokens.slice(i, i + n);
+            if (i + 2 * n > tokens.length || phrase.every(token => isFiller.has(token))) continue;
+            if (n === 1 && phrase[0].length < MIN_REPEATED_WORD_LENGTH) continue;
+            if (!phrase.every((token, k) => token === tokens[i + n + k])) continue;
+            const separator = /\p{Script=Han}/u.test(phrase[0]) ? '' : ' ';
+            restarts.push(tokens.slice(i, i + 2 * n).join(separator));
+            i += 2 * n - 1;
+            break;
+        }
+    }
+    return restarts;
 };
-const VOICE_MAP: Record<Language, Record<VoiceQuality, string>> = {
-    "Deutsch": { "Standard": "de-DE-Standard-A", "Premium": "de-DE-Wavenet-F" },
-    "Englisch": { "Standard": "en-US-Standard-C", "Premium": "en-US-Wavenet-F" },
-    "Russisch": { "Standard": "ru-RU-Standard-A", "Premium": "ru-RU-Wavenet-D" },
-    "Spanisch": { "Standard": "es-ES-Standard-A", "Premium": "es-ES-Wavenet-B" },
-    "Französisch": { "Standard": "fr-FR-Standard-A", "Premium": "fr-FR-Wavenet-E" }
+
+/**
+ * Splits the timed segments where the clock starts again: a take recorded in
+ * several sessions holds several timelines, and the gap between them is no pause.
+ */
+const splitTimelines = (segments: TranscriptSegment[]) => {
+    const timelines: TranscriptSegment[][] = [];
+    for (const segment of segments.filter(s => s.end > 0)) {
+        const current = timelines[timelines.length - 1];
+        if (current && segment.start >= current[current.length - 1].start) current.push(segment);
+        else timelines.push([segment]);
+    }
+    return timelines;
 };
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-// --- API HELPERS ---
-const generateContentWithRetry = async (prompt: string, retries = 3, delay = 1000): Promise<string> => {
-    for (let i = 0; i < retries; i++) {
-        try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-            });
-            const text = response.text;
-            if (text === undefined) {
-                throw new Error("API response did not contain text.");
+/** Measures the recognized takes; null when nothing was recognized. */
+const measureDelivery = (takes: DeliveryTake[]): DeliveryMetrics | null => {
+    let words = 0;
+    let timedWords = 0;
+    let speakingSeconds = 0;
+    const longPauses: number[] = [];
+    const fillerCounts = new Map<string, number>();
+    const selfCorrections: string[] = [];
+
+    for (const { segments, lang } of takes) {
+        const text = joinTranscriptSegments(segments);
+        words += countWords(text);
+        for (const timeline of splitTimelines(segments)) {
+            speakingSeconds += Math.max(0, timeline[timeline.length - 1].end - timeline[0].start);
+            timedWords += countWords(joinTranscriptSegments(timeline));
+            for (let i = 1; i < timeline.length; i++) {
+                const gap = timeline[i].start - timeline[i - 1].end;
+                if (gap >= LONG_PAUSE_SECONDS) longPauses.push(gap);
             }
-            return text;
-        } catch (error) {
-            console.error(`Attempt ${i + 1} failed:`, error);
-            if (i === retries - 1) throw error;
-            await new Promise(res => setTimeout(res, delay));
+        }
+        const { fillers, corrections } = getLanguage(lang);
+        for (const filler of fillers) {
+            const count = countPhrase(text, filler);
+            if (count > 0) fillerCounts.set(filler, (fillerCounts.get(filler) ?? 0) + count);
+        }
+        selfCorrections.push(...findRestarts(text, fillers));
+        for (const phrase of corrections) {
+            selfCorrections.push(...Array<string>(countPhrase(text, phrase)).fill(phrase));
         }
     }
-    throw new Error("Failed to generate content after multiple retries.");
-};
 
-const punctuateTextWithAI = async (rawText: string, lang: Language): Promise<string> => {
-    if (!rawText || rawText.trim() === '') {
-        return rawText;
-    }
-    const prompt = `Füge dem folgenden Text auf ${lang} die korrekte Zeichensetzung (Punkte, Kommas, Fragezeichen usw.) hinzu. Ändere nicht die Wörter oder die Reihenfolge der Sätze. Gib NUR den vollständigen Text mit Zeichensetzung zurück.
+    if (words === 0) return null;
+    return {
+        words,
+        speakingSeconds: speakingSeconds > 0 ? speakingSeconds : null,
+        wordsPerMinute: speakingSeconds > 0 ? Math.round(timedWords / (speakingSeconds / 60)) : null,
+        longPauses,
+        fillers: [...fillerCounts].map(([word, count]) => ({ word, count })).sort((a, b) => b.count - a.count),
+        selfCorrections,
+    };
+};
 
-Originaltext:
-"""
-${rawText}
-"""`;
+/** One line per metric, for the feedback prompt and the feedback view. */
+const describeDeliveryMetrics = (metrics: DeliveryMetrics): string[] => {
+    const fillerCount = metrics.fillers.reduce((sum, filler) => sum + filler.count, 0);
+    const examples = [...new Set(metrics.selfCorrections)].slice(0, 3).map(example => `„${example}“`);
+    return [
+        metrics.wordsPerMinute !== null
+            ? `Sprechtempo: ${metrics.wordsPerMinute} Wörter/min über ${formatSeconds(metrics.speakingSeconds!)} Sprechzeit (insgesamt ${metrics.words} Wörter)`
+            : `Sprechtempo: nicht messbar, die Erkennung lieferte keine Zeitangaben (${metrics.words} Wörter)`,
+        metrics.speakingSeconds === null
+            ? 'Lange Pausen: nicht messbar'
+            : metrics.longPauses.length > 0
+                ? `Lange Pausen (ab ${LONG_PAUSE_SECONDS} s): ${metrics.longPauses.length}, die längste ${formatSeconds(Math.max(...metrics.longPauses))}`
+                : `Lange Pausen (ab ${LONG_PAUSE_SECONDS} s): keine`,
+        fillerCount > 0
+            ? `Füllwörter: ${fillerCount} (${metrics.fillers.map(filler => `„${filler.word}“ ${filler.count}×`).join(', ')})`
+            : 'Füllwörter: keine erkannt',
+        metrics.selfCorrections.length > 0
+            ? `Selbstkorrekturen und Neuansätze: ${metrics.selfCorrections.length} (z. B. ${examples.join(', ')})`
+            : 'Selbstkorrekturen und Neuansätze: keine erkannt',
+    ];
+};
 
-    const punctuatedText = await generateContentWithRetry(prompt);
-    return punctuatedText.trim().replace(/^["']|["']$/g, '');
+/**
+ * Extra task for the feedback prompts: rate the delivery from the measured
+ * metrics. Returns an empty string when nothing was recognized from speech.
+ */
+const buildDeliveryPrompt = (metrics: DeliveryMetrics | null) => {
+    if (!metrics) return '';
+    return `
+        Vortrag:
+        Aus der Aufnahme der Verdolmetschung wurden folgende Kennzahlen gemessen:
+${describeDeliveryMetrics(metrics).map(line => `        - ${line}`).join('\n')}
+        Die Spracherkennung lässt Füllwörter oft weg; ihre Zahl ist daher eher zu niedrig. Bewerte den Vortrag (Flüssigkeit, Sprechtempo, Pausen, Füllwörter, Selbstkorrekturen) auf einer Skala von 1 (sehr schlecht) bis 10 (ausgezeichnet) und beziehe dich in der Zusammenfassung auf die Kennzahlen.
+        Ergänze das JSON-Objekt um das Feld "delivery":
+        "delivery": { "rating": number, "summary": "string (2-3 Sätze zum Vortrag)" }
+    `;
 };
 
-const synthesizeSpeechGoogleCloud = async (text: string, lang: Language, quality: VoiceQuality) => {
-    const languageCode = LANG_MAP[lang];
-    const voiceName = VOICE_MAP[lang][quality];
-    const url = `https://texttospeech.googleapis.com/v1/text:synthesize?key=${process.env.API_KEY}`;
+// --- SENTENCE ALIGNMENT ---
+// The error analysis names at most five spots; the alignment lets learners
+// review the whole rendition. The original is split into sentences here and
+// numbered, the model assigns each sentence its part of the interpretation
+// and classifies the pair. The sentences are taken from our split, not from
+// the answer, so the left column always shows the original verbatim.
 
-    const body = JSON.stringify({
-        input: { text: text },
-        voice: { languageCode: languageCode, name: voiceName },
-        audioConfig: { audioEncoding: 'MP3' },
-    });
-    try {
-        const response = await fetch(url, { method: 'POST', body });
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error("Speech synthesis failed:", response.status, errorText);
-            throw new Error(`Speech synthesis failed: ${response.status} ${errorText}`);
-        }
-        const data = await response.json();
-        return data.audioContent;
-    } catch (error) {
-        console.error("Error calling Google Cloud TTS API:", error);
-        throw error;
-    }
+const ALIGNMENT_STATUS_CLASSES: Record<AlignmentStatus, string> = {
+    "korrekt": 'is-correct',
+    "Auslassung": 'is-omission',
+    "Verzerrung": 'is-distortion',
+    "Hinzufügung": 'is-addition',
 };
 
-const adjustTextLength = async (initialText: string, settings: Settings): Promise<string> => {
-    const { speechLength, topic, sourceLang, mode } = settings;
-    const isMonologueMode = mode === 'Vortragsdolmetschen' || mode === 'Simultandolmetschen' || mode === 'Shadowing';
-    let target: { min: number; max: number; };
-
-    if (settings.mode === 'Stegreifübersetzen') {
-        target = { min: 1280, max: 1420 };
-    } else {
-        target = SPEECH_LENGTH_TARGETS[speechLength];
-    }
+const normalizeAlignmentStatus = (value: unknown): AlignmentStatus | null => {
+    if (typeof value !== 'string') return null;
+    const normalized = value.trim().toLowerCase();
+    if (normalized.startsWith('korrekt') || normalized === 'correct') return 'korrekt';
+    if (normalized.startsWith('auslassung') || normalized === 'omission') return 'Auslassung';
+    if (normalized.startsWith('verzerrung') || normalized === 'distortion') return 'Verzerrung';
+    if (normalized.startsWith('hinzufügung') || normalized === 'addition') return 'Hinzufügung';
+    return null;
+};
 
-    let currentText = initialText;
-    let attempts = 0;
-    const MAX_ADJUSTMENT_ATTEMPTS = 3;
+const validateAlignment = (value: unknown, sentences: string[]): ValidationResult<AlignedPair[]> => {
+    if (!Array.isArray(value)) return { ok: false, errors: ['Die Antwort muss ein JSON-Array sein.'] };
 
-    while (
-        (currentText.length < target.min || currentText.length > target.max) &&
-        attempts < MAX_ADJUSTMENT_ATTEMPTS
-    ) {
-        attempts++;
-        let adjustmentPrompt = '';
-
-        if (currentText.length < target.min) {
-            const diff = target.min - currentText.length;
-            const paragraphsToAdd = diff > 800 ? 2 : 1;
-            let actionPrompt = `Bitte füge ${paragraphsToAdd} sinnvollen Absatz/Absätze hinzu, um den Text zu verlängern.`;
-            if (isMonologueMode) {
-                actionPrompt = `Bitte füge ${paragraphsToAdd} sinnvollen Absatz/Absätze in der Mitte des Textes hinzu, um ihn zu verlängern. Die Anrede am Anfang und die Schlussformel am Ende müssen unbedingt erhalten bleiben.`;
-            }
-            adjustmentPrompt = `Der folgende ${isMonologueMode ? 'Vortrag' : 'Text'} zum Thema "${topic}" in der Sprache ${sourceLang} ist zu kurz. Aktuelle Länge: ${currentText.length} Zeichen. Ziel ist ${target.min}-${target.max} Zeichen. ${actionPrompt} Bleibe dabei unbedingt im Stil und in der Sprache (${sourceLang}) des Originaltextes. Gib NUR den vollständigen, neuen Text aus.
-            
-            Originaltext:
-            """
-            ${currentText}
-            """`;
-        } else { // currentText.length > target.max
-            const diff = currentText.length - target.max;
-            const paragraphsToRemove = diff > 800 ? 2 : 1;
-            let actionPrompt = `Bitte kürze den Text um ${paragraphsToRemove} Absatz/Absätze, ohne den Kerninhalt zu verlieren.`;
-            if (isMonologueMode) {
-                actionPrompt = `Bitte kürze den Text um ${paragraphsToRemove} Absatz/Absätze aus der Mitte des Textes, ohne den Kerninhalt zu verlieren. Die Anrede am Anfang und die Schlussformel am Ende müssen unbedingt erhalten bleiben.`;
-            }
-            adjustmentPrompt = `Der folgende ${isMonologueMode ? 'Vortrag' : 'Text'} zum Thema "${topic}" in der Sprache ${sourceLang} ist zu lang. Aktuelle Länge: ${currentText.length} Zeichen. Ziel ist ${target.min}-${target.max} Zeichen. ${actionPrompt} Stelle sicher, dass der gekürzte Text in der Sprache ${sourceLang} bleibt. Gib NUR den vollständigen, gekürzten Text aus.
+    const errors: string[] = [];
+    let expected = 1;
+    const pairs = value.map((item, i): AlignedPair | null => {
+        const path = `[${i}]`;
+        if (!isRecord(item)) {
+            errors.push(`${path} muss ein Objekt sein.`);
+            return null;
+        }
+        const status = normalizeAlignmentStatus(item.status);
+        if (!status) errors.push(`${path}.status muss "korrekt", "Auslassung", "Verzerrung" oder "Hinzufügung" sein.`);
+        const interpretation = item.interpretation == null ? '' : readString(item, 'interpretation', path, errors);
+        const explanation = item.explanation == null ? '' : readString(item, 'explanation', path, errors);
 
-            Originaltext:
-            """
-            ${currentText}
-            """`;
+        if (item.sentence == null) {
+            if (status && status !== 'Hinzufügung') errors.push(`${path}.sentence fehlt; nur eine Hinzufügung hat keinen Satz.`);
+            return { sentence: null, original: '', interpretation, status: 'Hinzufügung', explanation };
+        }
+        const sentence = Number(item.sentence);
+        if (sentence > sentences.length) {
+            errors.push(`${path}.sentence ist ${item.sentence}, das Original hat nur ${sentences.length} Sätze.`);
+            return null;
         }
+        if (sentence !== expected) {
+            errors.push(`${path}.sentence ist ${item.sentence}, erwartet wird Satz ${expected}. Jeder Satz muss genau einmal und in der Reihenfolge des Originals vorkommen.`);
+            return null;
+        }
+        expected++;
+        return { sentence, original: sentences[sentence - 1], interpretation, status: status ?? 'korrekt', explanation };
+    }).filter((pair): pair is AlignedPair => pair !== null);
 
-        console.log(`Adjustment attempt ${attempts}: Current length ${currentText.length}, target ${target.min}-${target.max}. Adjusting...`);
-        currentText = await generateContentWithRetry(adjustmentPrompt);
-    }
+    if (expected < sentences.length) errors.push(`Die Sätze ${expected} bis ${sentences.length} fehlen.`);
+    else if (expected === sentences.length) errors.push(`Satz ${expected} fehlt.`);
+    if (errors.length > 0) return { ok: false, errors };
+    return { ok: true, value: pairs };
+};
 
-    if (attempts >= MAX_ADJUSTMENT_ATTEMPTS) {
-        console.warn(`Could not adjust text to target length after ${MAX_ADJUSTMENT_ATTEMPTS} attempts. Using last generated text.`);
-    }
+const alignInterpretation = (originalText: string, interpretation: string, sourceLang: Language, targetLang: Language, signal?: AbortSignal): Promise<AlignedPair[]> => {
+    const sentences = splitSentences(originalText);
+    const prompt = `Kontext: Eine Dolmetschübung von ${getPromptLanguageName(sourceLang)} nach ${getPromptLanguageName(targetLang)}.
 
-    return currentText;
-};
+Das Original, in nummerierte Sätze zerlegt:
+"""
+${sentences.map((sentence, i) => `[${i + 1}] ${sentence}`).join('\n')}
+"""
+
+Verdolmetschung des Benutzers:
+"""
+${interpretation}
+"""
+
+Aufgabe: Ordne jedem Satz des Originals den Teil der Verdolmetschung zu, der ihm entspricht, und bewerte das Paar:
+- "korrekt": Der Sinn ist vollständig und richtig wiedergegeben; stilistische Abweichungen sind erlaubt.
+- "Auslassung": Der Satz oder ein wesentlicher Teil davon fehlt. Fehlt der ganze Satz, bleibt "interpretation" leer.
+- "Verzerrung": Der Sinn wurde verändert oder falsch wiedergegeben.
+- "Hinzufügung": Ein Teil der Verdolmetschung ohne Entsprechung im Original; dann ist "sentence" null.
+Führe jeden Satz genau einmal und in der Reihenfolge des Originals auf und setze Hinzufügungen an die Stelle, an der sie in der Verdolmetschung stehen. Übernimm die Teile der Verdolmetschung wörtlich. Fasst die Verdolmetschung mehrere Sätze zusammen, ordne den Text dem ersten dieser Sätze zu, lass "interpretation" bei den übrigen leer und nenne in der Erklärung, womit sie zusammengefasst wurden.
+"explanation" begründet die Bewertung in 1-2 Sätzen; bei "korrekt" darf sie leer bleiben.
 
+Gib deine Antwort NUR als JSON-Array im folgenden Format aus. Keine zusätzlichen Texte oder Erklärungen.
+[{"sentence": number oder null, "interpretation": "string", "status": "'korrekt', 'Auslassung', 'Verzerrung' oder 'Hinzufügung'", "explanation": "string"}]`;
+    return generateStructuredContent(prompt, 'alignment', 'array', value => validateAlignment(value, sentences), signal);
+};
 
 // --- REACT COMPONENTS ---
 const App = () => {
-  const [isAuthorized, setIsAuthorized] = useState<boolean>(false);
+  const [session, setSession] = useState<AuthSession | null>(loadStoredSession);
+  const [isCheckingSession, setIsCheckingSession] = useState<boolean>(() => loadStoredSession() !== null);
+  const [userName, setUserName] = useState<string>('');
   const [accessCode, setAccessCode] = useState<string>('');
-  
-  const handleAuthorization = () => {
-    if (accessCode === 'IFA2526') {
-      setIsAuthorized(true);
-    } else {
-      alert('Ungültiger Zugangscode. Bitte versuchen Sie es erneut.');
+  const [authError, setAuthError] = useState<string>('');
+  const [isLoggingIn, setIsLoggingIn] = useState<boolean>(false);
+
+  useEffect(() => {
+    // Re-validate a stored session on load: the code may have been revoked or
+    // may have expired since the last visit.
+    if (session) {
+      apiFetch<{ expiresAt: string; user: AuthUser }>('/api/auth/session')
+        .then(({ user, expiresAt }) => {
+          const refreshed = { ...session, user, expiresAt };
+          storeSession(refreshed);
+          setSession(refreshed);
+        })
+        .catch(error => {
+          console.warn("Stored session is no longer valid:", error);
+          if (error instanceof ApiError && error.status === 401) setSession(null);
+        })
+        .finally(() => setIsCheckingSession(false));
+    }
+
+    const handleSessionExpired = () => {
+      setSession(null);
+      setAuthError('Ihre Sitzung ist abgelaufen. Bitte melden Sie sich erneut an.');
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, []);
+
+  const handleAuthorization = async () => {
+    if (!userName.trim() || !accessCode.trim()) {
+      setAuthError('Bitte geben Sie Benutzername und Zugangscode ein.');
+      return;
     }
+    setIsLoggingIn(true);
+    setAuthError('');
+    try {
+      setSession(await login(userName, accessCode));
+      setAccessCode('');
+    } catch (error) {
+      console.error("Login failed:", error);
+      setAuthError(error instanceof ApiError ? error.message : 'Der Anmeldeserver ist nicht erreichbar. Bitte versuchen Sie es später erneut.');
+    } finally {
+      setIsLoggingIn(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    generationControllerRef.current?.abort();
+    await logout();
+    setSession(null);
+    setExerciseState('idle');
   };
 
   const [settings, setSettings] = useState<Settings>({
@@ -268,89 +3775,204 @@ const App = () => {
     qaLength: "2-4 Sätze",
     speechLength: "Kurz",
     voiceQuality: "Standard",
-    playbackRate: 1.0,
+    voices: {},
+    playbackRate: SPEECH_RATE_PLAYBACK[DIFFICULTY_PRESETS["Fortgeschritten"].speechRate],
+    difficulty: DIFFICULTY_PRESETS["Fortgeschritten"],
+    segmentation: { unit: 'none', sentenceCount: 3, seconds: 60 },
+    recognitionBackend: 'browser',
   });
-  const [exerciseState, setExerciseState] = useState<'idle' | 'generating' | 'ready' | 'error'>('idle');
+  const [exerciseState, setExerciseState] = useState<ExerciseState>('idle');
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [originalText, setOriginalText] = useState<string>('');
   const [exerciseId, setExerciseId] = useState<number>(Date.now());
   const [dialogue, setDialogue] = useState<DialogueSegment[]>([]);
+  const [glossary, setGlossary] = useState<Glossary | null>(null);
+  const [dialogueScript, setDialogueScript] = useState<DialogueScript | null>(null);
+  const [sourceAudio, setSourceAudio] = useState<SourceAudio | null>(null);
+  const [generatingMessage, setGeneratingMessage] = useState<string>('');
+
+  // Releases the object URL of a recording once it is replaced or the app goes away.
+  useEffect(() => () => {
+    if (sourceAudio) URL.revokeObjectURL(sourceAudio.url);
+  }, [sourceAudio]);
+
+  const generationControllerRef = useRef<AbortController | null>(null);
+
+  const handleCancelGeneration = () => {
+    generationControllerRef.current?.abort();
+  };
+
+  // Every new exercise starts with terminology preparation, except Shadowing,
+  // where source and target language are the same.
+  const startPreparation = (exerciseSettings = settings) => {
+    setGlossary({ topic: exerciseSettings.topic, sourceLang: exerciseSettings.sourceLang, targetLang: exerciseSettings.targetLang, entries: [] });
+    setExerciseState(exerciseSettings.mode === 'Shadowing' ? 'ready' : 'preparing');
+    setExerciseId(Date.now()); // Reset exercise with new ID
+  };
 
   const handleStart = async () => {
+    generationControllerRef.current?.abort();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    const { signal } = controller;
+
     setExerciseState('generating');
+    setGeneratingMessage('KI-Übung wird für Sie erstellt...');
     setErrorMessage('');
     try {
         let prompt = '';
         const isMonologueMode = settings.mode === 'Vortragsdolmetschen' || settings.mode === 'Simultandolmetschen' || settings.mode === 'Shadowing';
         const isSightTranslationMode = settings.mode === 'Stegreifübersetzen';
+        const difficultyPrompt = describeDifficultyForPrompt(settings.difficulty);
 
         if (isMonologueMode) {
-            prompt = `Erstelle einen Vortrag zum Thema "${settings.topic}" für eine Dolmetschübung im Modus "${settings.mode}". Die Sprache des Vortrags soll ${settings.sourceLang} sein. Die Länge soll dem Level "${settings.speechLength}" entsprechen. Der Vortrag muss mit einer passenden Anrede für das Publikum beginnen (z.B. "Sehr geehrte Damen und Herren", "Liebe Freunde", "Verehrte Gäste") und mit einer Schlussformel enden (z.B. "Vielen Dank für Ihre Aufmerksamkeit"). Gib nur den reinen Vortragstext aus, ohne Titel oder zusätzliche Kommentare.`;
+            const speechBudget = getLengthTarget(settings);
+            prompt = `Erstelle einen Vortrag zum Thema "${settings.topic}" für eine Dolmetschübung im Modus "${settings.mode}". Die Sprache des Vortrags soll ${getPromptLanguageName(settings.sourceLang)} sein. Der Vortrag soll vorgelesen etwa ${SPEECH_DURATION_TARGETS[settings.speechLength].minMinutes}–${SPEECH_DURATION_TARGETS[settings.speechLength].maxMinutes} Minuten dauern, das sind ungefähr ${speechBudget.min}–${speechBudget.max} ${getLengthUnitLabel(speechBudget.unit, settings.sourceLang)}. Gliedere ihn in Absätze, die durch Leerzeilen getrennt sind.\n\n${difficultyPrompt}\n\nDer Vortrag muss mit einer passenden Anrede für das Publikum beginnen (z.B. "Sehr geehrte Damen und Herren", "Liebe Freunde", "Verehrte Gäste") und mit einer Schlussformel enden (z.B. "Vielen Dank für Ihre Aufmerksamkeit"). Gib nur den reinen Vortragstext aus, ohne Titel oder zusätzliche Kommentare.`;
         } else if (isSightTranslationMode) {
-            prompt = `Erstelle einen zusammenhängenden Text zum Thema "${settings.topic}" in ${settings.sourceLang} für eine Stegreifübersetzungs-Übung. Der Text soll eine Länge zwischen 1280 und 1420 Zeichen haben. Gib nur den reinen Text aus, ohne Titel oder zusätzliche Kommentare.`;
+            const sightTarget = getLengthTarget(settings);
+            prompt = `Erstelle einen zusammenhängenden Text zum Thema "${settings.topic}" in ${getPromptLanguageName(settings.sourceLang)} für eine Stegreifübersetzungs-Übung. Der Text soll eine Länge zwischen ${sightTarget.min} und ${sightTarget.max} Zeichen haben.\n\n${difficultyPrompt}\n\nGib nur den reinen Text aus, ohne Titel oder zusätzliche Kommentare.`;
         } else { // Gesprächsdolmetschen
-            prompt = `Erstelle einen realistischen Dialog zwischen zwei Personen (A und B) zum Thema "${settings.topic}". Der Dialog soll im Frage-Antwort-Format sein. Person A (${settings.sourceLang}) stellt Fragen, Person B (${settings.targetLang}) antwortet. Der Dialog soll insgesamt 12 Segmente haben (6 Fragen von Person A, 6 Antworten von Person B). Jedes Segment soll eine Länge von "${settings.qaLength}" haben. Gib nur den reinen Dialog aus, ohne zusätzliche Erklärungen, formatiert als JSON-Array mit Objekten, die "type", "text" und "lang" enthalten. Beispiel: [{"type": "Frage", "text": "...", "lang": "${settings.sourceLang}"}, ...]`;
+            prompt = `Erstelle einen realistischen Dialog zwischen zwei Personen (A und B) zum Thema "${settings.topic}". Der Dialog soll im Frage-Antwort-Format sein. Person A (${settings.sourceLang}) stellt Fragen auf ${getPromptLanguageName(settings.sourceLang)}, Person B (${settings.targetLang}) antwortet auf ${getPromptLanguageName(settings.targetLang)}. Der Dialog soll insgesamt 12 Segmente haben (6 Fragen von Person A, 6 Antworten von Person B). Jedes Segment soll eine Länge von "${settings.qaLength}" haben.\n\n${difficultyPrompt}\n\nGib nur den reinen Dialog aus, ohne zusätzliche Erklärungen, formatiert als JSON-Array mit Objekten, die "type", "text" und "lang" enthalten. Beispiel: [{"type": "Frage", "text": "...", "lang": "${settings.sourceLang}"}, ...]`;
         }
   
-        const generatedContent = await generateContentWithRetry(prompt);
-
         if (isMonologueMode || isSightTranslationMode) {
-            const adjustedText = await adjustTextLength(generatedContent, settings);
+            const generatedContent = await generateContentWithRetry(prompt, 'generation', { signal });
+            const adjustedText = await adjustTextLength(generatedContent, settings, signal);
             setOriginalText(adjustedText);
             setDialogue([]); // Ensure dialogue is cleared
+            setSourceAudio(null);
+            saveExercise({ settings, text: adjustedText, dialogue: [] });
         } else { // Gesprächsdolmetschen
-            const jsonStart = generatedContent.indexOf('[');
-            const jsonEnd = generatedContent.lastIndexOf(']');
-            if (jsonStart === -1 || jsonEnd === -1) {
-                console.error("Generated content for dialogue does not contain a JSON array:", generatedContent);
-                throw new Error("AI response did not contain a valid JSON array for the dialogue.");
-            }
-            const jsonString = generatedContent.substring(jsonStart, jsonEnd + 1);
-            const parsedDialogue = JSON.parse(jsonString);
+            const parsedDialogue = await generateStructuredContent(prompt, 'dialogue', 'array', value => validateDialogue(value, settings), signal);
             setDialogue(parsedDialogue);
             setOriginalText(''); // Ensure original text is cleared
+            saveExercise({ settings, text: '', dialogue: parsedDialogue });
         }
 
-        setExerciseState('ready');
-        setExerciseId(Date.now()); // Reset exercise with new ID
+        startPreparation();
     } catch (error) {
+      if (isCancellation(error)) {
+        // A newer exercise request has taken over, or the user cancelled or logged out.
+        if (generationControllerRef.current === controller) setExerciseState('idle');
+        return;
+      }
       console.error(error);
-      setErrorMessage("Fehler bei der Erstellung der Übung. Bitte versuchen Sie es erneut.");
+      setErrorMessage(`Die Übung konnte nicht erstellt werden. ${describeAiError(error)}`);
       setExerciseState('error');
+    } finally {
+      if (generationControllerRef.current === controller) generationControllerRef.current = null;
     }
   };
 
-  const handleFileUpload = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result;
-      if (result && typeof result === 'string') {
-        setOriginalText(result);
-        setExerciseState('ready');
-        setExerciseId(Date.now());
-      } else {
-        console.error("Failed to read file as text.");
-        setErrorMessage("Datei konnte nicht als Text gelesen werden.");
-        setExerciseState('error');
+  // Returns a warning for the settings panel when the text is unusually long.
+  const handleFileUpload = async (file: File): Promise<string | null> => {
+    try {
+      if (settings.mode === 'Gesprächsdolmetschen') {
+        setDialogueScript(await importDialogueScript(file));
+        setExerciseState('reviewing');
+        return null;
       }
-    };
-    reader.readAsText(file);
+      const text = await importSourceText(file);
+      setOriginalText(text);
+      setDialogue([]);
+      setSourceAudio(null);
+      startPreparation();
+      return getImportLengthWarning(text, settings);
+    } catch (error) {
+      console.error("Failed to import file:", error);
+      setErrorMessage(`Die Datei konnte nicht gelesen werden. ${(error as Error).message}`);
+      setExerciseState('error');
+      return null;
+    }
+  };
+
+  // A recorded speech replaces the synthesized one. Without a transcript file
+  // the reference text is transcribed first, which can take a while.
+  const handleAudioUpload = async (audioFile: File, transcriptFile: File | null) => {
+    generationControllerRef.current?.abort();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+
+    setExerciseState('generating');
+    setGeneratingMessage(transcriptFile ? 'Transkript wird gelesen...' : 'Die Aufnahme wird transkribiert...');
+    setErrorMessage('');
+    try {
+      const text = transcriptFile
+        ? await importSourceText(transcriptFile)
+        : await transcribeSourceAudio(audioFile, settings.sourceLang, controller.signal);
+      setOriginalText(text);
+      setDialogue([]);
+      setSourceAudio({ url: URL.createObjectURL(audioFile), fileName: audioFile.name, isTranscribed: !transcriptFile });
+      startPreparation();
+    } catch (error) {
+      if (isCancellation(error)) {
+        if (generationControllerRef.current === controller) setExerciseState('idle');
+        return;
+      }
+      console.error("Failed to import the recording:", error);
+      setErrorMessage(`${transcriptFile ? 'Das Transkript konnte nicht gelesen werden.' : 'Die Aufnahme konnte nicht transkribiert werden.'} ${(error as Error).message}`);
+      setExerciseState('error');
+    } finally {
+      if (generationControllerRef.current === controller) generationControllerRef.current = null;
+    }
+  };
+
+  // The languages of an imported script replace the ones in the settings:
+  // the first language of the script becomes the source language.
+  const handleConfirmDialogueScript = () => {
+    if (!dialogueScript) return;
+    const [sourceLang, targetLang] = dialogueScript.languages;
+    const scriptSettings = { ...settings, sourceLang, targetLang };
+    setSettings(scriptSettings);
+    setDialogue(dialogueScript.segments);
+    setOriginalText('');
+    setSourceAudio(null);
+    setDialogueScript(null);
+    startPreparation(scriptSettings);
+  };
+
+  const handleDiscardDialogueScript = () => {
+    setDialogueScript(null);
+    setExerciseState('idle');
   };
 
-  if (!isAuthorized) {
+  if (isCheckingSession) {
+    return (
+      <div className="auth-container">
+        <div className="auth-box">
+          <h1>Dolmetsch-Trainer Pro 2.0</h1>
+          <p>Sitzung wird überprüft...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
     return (
       <div className="auth-container">
         <div className="auth-box">
           <h1>Dolmetsch-Trainer Pro 2.0</h1>
-          <p>Bitte geben Sie Ihren Zugangscode ein:</p>
+          <p>Bitte melden Sie sich mit Ihrem Benutzernamen und Zugangscode an:</p>
           <input
             type="text"
+            value={userName}
+            onChange={(e) => setUserName(e.target.value)}
+            placeholder="Benutzername"
+            autoComplete="username"
+            onKeyPress={(e) => e.key === 'Enter' && handleAuthorization()}
+          />
+          <input
+            type="password"
             value={accessCode}
             onChange={(e) => setAccessCode(e.target.value)}
             placeholder="Zugangscode eingeben"
+            autoComplete="current-password"
             onKeyPress={(e) => e.key === 'Enter' && handleAuthorization()}
           />
-          <button onClick={handleAuthorization}>Anmelden</button>
+          {authError && <p className="auth-error">{authError}</p>}
+          <button onClick={handleAuthorization} disabled={isLoggingIn}>
+            {isLoggingIn ? 'Anmeldung läuft...' : 'Anmelden'}
+          </button>
           <p className="auth-info">
             Sie haben noch keinen Zugangscode? Bitte wenden Sie sich an{' '}
             <a href="mailto:roland.kleiber@ifa.fau.de?subject=Zugangscode%20Dolmetsch-Trainer-App">
@@ -365,8 +3987,16 @@ const App = () => {
   return (
     <>
       <header className="app-header">
-          <h1>Dolmetsch-Trainer Pro 2.0</h1>
-          <p>KI-gestützte Trainingsumgebung für professionelle Dolmetscher</p>
+          <div>
+              <h1>Dolmetsch-Trainer Pro 2.0</h1>
+              <p>KI-gestützte Trainingsumgebung für professionelle Dolmetscher</p>
+          </div>
+          <div className="app-header-user">
+              <span title={session.user.expiresAt ? `Zugang gültig bis ${new Date(session.user.expiresAt).toLocaleDateString('de-DE')}` : undefined}>
+                  Angemeldet als <strong>{session.user.name}</strong>
+              </span>
+              <button className="btn btn-secondary" onClick={handleLogout}>Abmelden</button>
+          </div>
       </header>
       <div className="main-container">
         <SettingsPanel
@@ -374,6 +4004,7 @@ const App = () => {
           setSettings={setSettings}
           onStart={handleStart}
           onFileUpload={handleFileUpload}
+          onAudioUpload={handleAudioUpload}
           isLoading={exerciseState === 'generating'}
         />
         <PracticeArea
@@ -382,22 +4013,59 @@ const App = () => {
           exerciseState={exerciseState}
           originalText={originalText}
           dialogue={dialogue}
+          glossary={glossary}
+          dialogueScript={dialogueScript}
+          sourceAudio={sourceAudio}
+          generatingMessage={generatingMessage}
           errorMessage={errorMessage}
+          onCancelGeneration={handleCancelGeneration}
+          onConfirmDialogueScript={handleConfirmDialogueScript}
+          onDiscardDialogueScript={handleDiscardDialogueScript}
+          onGlossaryChange={setGlossary}
+          onFinishPreparation={() => setExerciseState('ready')}
         />
       </div>
     </>
   );
 };
 
-const SettingsPanel = ({ settings, setSettings, onStart, onFileUpload, isLoading }: {
+const SettingsPanel = ({ settings, setSettings, onStart, onFileUpload, onAudioUpload, isLoading }: {
   settings: Settings;
   setSettings: (settings: Settings) => void;
   onStart: () => void;
-  onFileUpload: (file: File) => void;
+  onFileUpload: (file: File) => Promise<string | null>;
+  onAudioUpload: (audioFile: File, transcriptFile: File | null) => void;
   isLoading: boolean;
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
   const [fileName, setFileName] = useState('');
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [transcriptFile, setTranscriptFile] = useState<File | null>(null);
+  const [exerciseHistory, setExerciseHistory] = useState<ExerciseRecord[] | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyError, setHistoryError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [uploadWarning, setUploadWarning] = useState<string | null>(null);
+  const [voiceLists, setVoiceLists] = useState<Partial<Record<Language, TtsVoice[]>>>({});
+  const [voiceListError, setVoiceListError] = useState('');
+
+  const isDialogueMode = settings.mode === 'Gesprächsdolmetschen';
+  const showVoiceOptions = settings.mode !== 'Stegreifübersetzen' && settings.sourceType !== 'audio';
+  const voiceLanguages = isDialogueMode ? [settings.sourceLang, settings.targetLang] : [settings.sourceLang];
+
+  useEffect(() => {
+    if (!showVoiceOptions) return;
+    voiceLanguages.filter(lang => !voiceLists[lang]).forEach(lang => {
+      listTtsVoices(lang)
+        .then(voices => setVoiceLists(prev => ({ ...prev, [lang]: voices })))
+        .catch(error => {
+          console.warn(`Loading the voices for ${lang} failed:`, error);
+          setVoiceListError('Die Liste aller Stimmen konnte nicht geladen werden.');
+        });
+    });
+  }, [showVoiceOptions, settings.sourceLang, settings.targetLang, isDialogueMode]);
 
   const handleSettingChange = (field: keyof Settings, value: string) => {
     const newSettings: any = { ...settings, [field]: value };
@@ -406,6 +4074,11 @@ const SettingsPanel = ({ settings, setSettings, onStart, onFileUpload, isLoading
         newSettings.playbackRate = parseFloat(value);
     }
 
+    // Recordings replace the speech of the monologue modes only.
+    if (field === 'mode' && newSettings.sourceType === 'audio' && !MONOLOGUE_MODES.includes(value as InterpretingMode)) {
+        newSettings.sourceType = 'upload';
+    }
+
     // Rule 1: If mode is set to Shadowing, force targetLang to match sourceLang
     if (field === 'mode' && value === 'Shadowing') {
         newSettings.targetLang = newSettings.sourceLang;
@@ -426,34 +4099,91 @@ const SettingsPanel = ({ settings, setSettings, onStart, onFileUpload, isLoading
     setSettings(newSettings);
   };
 
+  const handleSegmentationChange = (field: keyof ConsecutiveSegmentation, value: string) => {
+    const segmentation = { ...settings.segmentation };
+    if (field === 'unit') {
+        segmentation.unit = value as ConsecutiveSegmentation['unit'];
+    } else {
+        const number = parseInt(value, 10);
+        if (!Number.isFinite(number) || number < 1) return;
+        segmentation[field] = number;
+    }
+    setSettings({ ...settings, segmentation });
+  };
+
+  // "Standard" and "Premium" select the registry voices; any other value is a voice name.
+  const handleVoiceChange = (lang: Language, value: string) => {
+    const { [lang]: _previousVoice, ...voices } = settings.voices;
+    if (value === 'Standard' || value === 'Premium') {
+        setSettings({ ...settings, voiceQuality: value, voices });
+    } else {
+        setSettings({ ...settings, voices: { ...voices, [lang]: value } });
+    }
+  };
+
+  const handleDifficultyChange = <K extends keyof DifficultyProfile,>(field: K, value: string) => {
+    const difficulty = { ...settings.difficulty, [field]: value as DifficultyProfile[K] };
+    const playbackRate = field === 'speechRate' ? SPEECH_RATE_PLAYBACK[difficulty.speechRate] : settings.playbackRate;
+    setSettings({ ...settings, difficulty, playbackRate });
+  };
+
+  const handleDifficultyPresetChange = (name: string) => {
+    const difficulty = DIFFICULTY_PRESETS[name];
+    if (!difficulty) return;
+    setSettings({ ...settings, difficulty, playbackRate: SPEECH_RATE_PLAYBACK[difficulty.speechRate] });
+  };
+
+  const handleLoadHistory = async () => {
+    setIsLoadingHistory(true);
+    setHistoryError('');
+    try {
+      setExerciseHistory(await listExercises());
+    } catch (error) {
+      console.error("Loading the exercise history failed:", error);
+      setHistoryError('Frühere Übungen konnten nicht geladen werden.');
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  // Takes over all settings of an earlier exercise, so that a new exercise is
+  // generated at exactly the same level.
+  const handleApplyExercise = (id: string) => {
+    const exercise = exerciseHistory?.find(e => e.id === id);
+    if (!exercise) return;
+    setSettings({ ...settings, ...exercise.settings, difficulty: { ...settings.difficulty, ...exercise.settings.difficulty } });
+  };
+
   const handleFileSelect = () => {
     fileInputRef.current?.click();
   };
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (file) {
       setFileName(file.name);
-      onFileUpload(file);
+      setUploadWarning(null);
+      setIsImporting(true);
+      setUploadWarning(await onFileUpload(file));
+      setIsImporting(false);
     }
   };
 
   const renderSourceTypeOptions = () => {
-    if (settings.mode === "Gesprächsdolmetschen" || settings.mode === "Stegreifübersetzen") {
-        return null; // Hide source type for these modes as they always use AI
-    }
     return (
         <div className="form-group">
             <label htmlFor="sourceType">Quelle</label>
             <select id="sourceType" className="form-control" value={settings.sourceType} onChange={e => handleSettingChange('sourceType', e.target.value)}>
                 <option value="ai">KI-generiert</option>
-                <option value="upload">Text hochladen</option>
+                <option value="upload">{settings.mode === 'Gesprächsdolmetschen' ? 'Dialogskript hochladen' : 'Text hochladen'}</option>
+                {MONOLOGUE_MODES.includes(settings.mode) && <option value="audio">Aufnahme hochladen</option>}
             </select>
         </div>
     );
   };
 
   const renderAiOptions = () => {
-      if (settings.sourceType === 'upload' && settings.mode !== 'Gesprächsdolmetschen' && settings.mode !== 'Stegreifübersetzen') return null;
+      if (settings.sourceType !== 'ai') return null;
       
       const isMonologue = settings.mode === 'Vortragsdolmetschen' || settings.mode === 'Simultandolmetschen' || settings.mode === 'Shadowing';
       const isDialogue = settings.mode === 'Gesprächsdolmetschen';
@@ -461,8 +4191,8 @@ const SettingsPanel = ({ settings, setSettings, onStart, onFileUpload, isLoading
       return (
           <>
               <div className="form-group">
-                  <label htmlFor="topic">Thema und Schwierigkeitsgrad</label>
-                  <input type="text" id="topic" className="form-control" value={settings.topic} onChange={e => handleSettingChange('topic', e.target.value)} placeholder="z. B. Geldpolitik für Laien" />
+                  <label htmlFor="topic">Thema</label>
+                  <input type="text" id="topic" className="form-control" value={settings.topic} onChange={e => handleSettingChange('topic', e.target.value)} placeholder="z. B. Geldpolitik" />
               </div>
               {isDialogue ? (
                   <div className="form-group">
@@ -473,30 +4203,168 @@ const SettingsPanel = ({ settings, setSettings, onStart, onFileUpload, isLoading
                   </div>
               ) : isMonologue ? (
                   <div className="form-group">
-                      <label htmlFor="speechLength">Textlänge</label>
+                      <label htmlFor="speechLength">Redezeit</label>
                       <select id="speechLength" className="form-control" value={settings.speechLength} onChange={e => handleSettingChange('speechLength', e.target.value)}>
-                          {SPEECH_LENGTHS.map(len => <option key={len} value={len}>{len}</option>)}
+                          {SPEECH_LENGTHS.map(len => (
+                              <option key={len} value={len}>
+                                  {len} ({SPEECH_DURATION_TARGETS[len].minMinutes.toLocaleString('de-DE')}–{SPEECH_DURATION_TARGETS[len].maxMinutes.toLocaleString('de-DE')} min)
+                              </option>
+                          ))}
                       </select>
                   </div>
               ) : null}
+              {renderDifficultyOptions()}
+          </>
+      );
+  };
+
+  const renderSegmentationOptions = () => {
+      const { unit, sentenceCount, seconds } = settings.segmentation;
+      return (
+          <div className="form-group">
+              <label htmlFor="segmentationUnit">Abschnitte</label>
+              <select id="segmentationUnit" className="form-control" value={unit} onChange={e => handleSegmentationChange('unit', e.target.value)}>
+                  {(Object.keys(SEGMENTATION_UNITS) as ConsecutiveSegmentation['unit'][]).map(key => <option key={key} value={key}>{SEGMENTATION_UNITS[key]}</option>)}
+              </select>
+              {unit === 'sentences' && (
+                  <div className="difficulty-row">
+                      <label htmlFor="segmentSentences">Sätze pro Abschnitt</label>
+                      <input type="number" id="segmentSentences" className="form-control" min="1" max="20" value={sentenceCount} onChange={e => handleSegmentationChange('sentenceCount', e.target.value)} />
+                  </div>
+              )}
+              {(unit === 'duration' || (unit !== 'none' && settings.sourceType === 'audio')) && (
+                  <div className="difficulty-row">
+                      <label htmlFor="segmentSeconds">{unit === 'duration' ? 'Sekunden pro Abschnitt' : 'Sekunden pro Abschnitt bei Aufnahmen'}</label>
+                      <input type="number" id="segmentSeconds" className="form-control" min="10" max="600" step="10" value={seconds} onChange={e => handleSegmentationChange('seconds', e.target.value)} />
+                  </div>
+              )}
+              {unit !== 'none' && <p className="upload-hint">Nach jedem Abschnitt hält die Wiedergabe an, damit Sie ihn verdolmetschen können. Jede Verdolmetschung wird einzeln aufgenommen.</p>}
+          </div>
+      );
+  };
+
+  const renderDifficultyOptions = () => {
+      const preset = findDifficultyPreset(settings.difficulty) ?? '';
+      return (
+          <div className="form-group">
+              <label htmlFor="difficultyPreset">Schwierigkeitsgrad</label>
+              <select id="difficultyPreset" className="form-control" value={preset} onChange={e => handleDifficultyPresetChange(e.target.value)}>
+                  {Object.keys(DIFFICULTY_PRESETS).map(name => <option key={name} value={name}>{name}</option>)}
+                  <option value="" disabled>Benutzerdefiniert</option>
+              </select>
+              <details className="difficulty-details" open={!preset}>
+                  <summary>Schwierigkeitsprofil anpassen</summary>
+                  {(Object.keys(DIFFICULTY_DIMENSIONS) as (keyof DifficultyProfile)[]).map(key => (
+                      <div key={key} className="difficulty-row">
+                          <label htmlFor={`difficulty-${key}`}>{DIFFICULTY_DIMENSIONS[key].label}</label>
+                          <select id={`difficulty-${key}`} className="form-control" value={settings.difficulty[key]} onChange={e => handleDifficultyChange(key, e.target.value)}>
+                              {DIFFICULTY_DIMENSIONS[key].levels.map(level => <option key={level} value={level}>{level}</option>)}
+                          </select>
+                      </div>
+                  ))}
+              </details>
+          </div>
+      );
+  };
+
+  const renderVoiceOptions = () => {
+      if (!showVoiceOptions) return null;
+      return (
+          <>
+              {voiceLanguages.map(lang => {
+                  const voices = voiceLists[lang] ?? [];
+                  const chosen = settings.voices[lang];
+                  const tiers = Array.from(new Set(voices.map(voice => getVoiceTier(voice.name))));
+                  return (
+                      <div className="form-group" key={lang}>
+                          <label htmlFor={`voice-${lang}`}>{isDialogueMode ? `Stimme ${lang}` : 'Stimme'}</label>
+                          <select id={`voice-${lang}`} className="form-control" value={chosen ?? settings.voiceQuality} onChange={e => handleVoiceChange(lang, e.target.value)}>
+                              <optgroup label="Voreinstellung">
+                                  <option value="Standard">Standard</option>
+                                  <option value="Premium">Premium (bessere Qualität)</option>
+                              </optgroup>
+                              {tiers.map(tier => (
+                                  <optgroup key={tier} label={tier}>
+                                      {voices.filter(voice => getVoiceTier(voice.name) === tier).map(voice => (
+                                          <option key={voice.name} value={voice.name}>{voice.name} · {VOICE_GENDER_LABELS[voice.gender] ?? voice.gender}</option>
+                                      ))}
+                                  </optgroup>
+                              ))}
+                              {chosen && !voices.some(voice => voice.name === chosen) && <option value={chosen}>{chosen}</option>}
+                          </select>
+                      </div>
+                  );
+              })}
+              {isDialogueMode && <p className="upload-hint">Jede Person im Dialog erhält eine eigene Stimme; weitere Sprecher derselben Sprache werden automatisch zugeordnet.</p>}
+              {voiceListError && <p className="inline-error">{voiceListError}</p>}
           </>
       );
   };
+
+  const renderExerciseHistory = () => {
+      if (!exerciseHistory) {
+          return <button className="btn btn-secondary" onClick={handleLoadHistory} disabled={isLoadingHistory}>{isLoadingHistory ? 'Wird geladen...' : 'Frühere Übungen anzeigen'}</button>;
+      }
+      if (exerciseHistory.length === 0) {
+          return <p className="history-empty">Noch keine Übungen gespeichert.</p>;
+      }
+      return (
+          <select id="exerciseHistory" className="form-control" value="" onChange={e => handleApplyExercise(e.target.value)}>
+              <option value="" disabled>Einstellungen übernehmen von...</option>
+              {exerciseHistory.map(exercise => (
+                  <option key={exercise.id} value={exercise.id}>
+                      {new Date(exercise.createdAt).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' })} · {exercise.settings.mode} · {exercise.settings.topic || 'ohne Thema'} · {summarizeDifficulty(exercise.settings.difficulty)}
+                  </option>
+              ))}
+          </select>
+      );
+  };
   
+  const renderAudioOptions = () => {
+      if (settings.sourceType !== 'audio') return null;
+      return (
+        <div className="form-group">
+          <label>Eigene Aufnahme</label>
+          <div className="upload-group">
+            <button className="btn btn-secondary" onClick={() => audioInputRef.current?.click()} disabled={isLoading}>Aufnahme wählen</button>
+            <span className="file-name" title={audioFile?.name}>{audioFile?.name ?? 'Keine Aufnahme gewählt'}</span>
+          </div>
+          <div className="upload-group">
+            <button className="btn btn-secondary" onClick={() => transcriptInputRef.current?.click()} disabled={isLoading}>Transkript wählen</button>
+            <span className="file-name" title={transcriptFile?.name}>{transcriptFile?.name ?? 'Kein Transkript (wird transkribiert)'}</span>
+            {transcriptFile && <button className="btn-remove-entry" onClick={() => setTranscriptFile(null)} title="Transkript entfernen">×</button>}
+          </div>
+          <p className="upload-hint">MP3, WAV, OGG oder M4A. Ohne Transkript wird die Aufnahme automatisch transkribiert.</p>
+          <button className="btn btn-secondary" onClick={() => audioFile && onAudioUpload(audioFile, transcriptFile)} disabled={!audioFile || isLoading}>
+            Aufnahme verwenden
+          </button>
+          <input type="file" ref={audioInputRef} onChange={e => { setAudioFile(e.target.files?.[0] ?? null); e.target.value = ''; }} accept={SOURCE_AUDIO_ACCEPT} style={{ display: 'none' }} />
+          <input type="file" ref={transcriptInputRef} onChange={e => { setTranscriptFile(e.target.files?.[0] ?? null); e.target.value = ''; }} accept={SOURCE_FILE_ACCEPT} style={{ display: 'none' }} />
+        </div>
+      );
+  };
+
   const renderUploadOptions = () => {
-      if (settings.sourceType !== 'upload' || settings.mode === "Gesprächsdolmetschen" || settings.mode === "Stegreifübersetzen") return null;
+      if (settings.sourceType !== 'upload') return null;
+      const isDialogue = settings.mode === 'Gesprächsdolmetschen';
       return (
         <div className="form-group">
-          <label>Eigener Text</label>
+          <label>{isDialogue ? 'Eigenes Dialogskript' : 'Eigener Text'}</label>
           <div className="upload-group">
-            <button className="btn btn-secondary" onClick={handleFileSelect}>Datei wählen</button>
-            <span className="file-name" title={fileName}>{fileName || "Keine Datei gewählt"}</span>
+            <button className="btn btn-secondary" onClick={handleFileSelect} disabled={isImporting}>Datei wählen</button>
+            <span className="file-name" title={fileName}>{isImporting ? 'Datei wird gelesen...' : fileName || "Keine Datei gewählt"}</span>
           </div>
+          <p className="upload-hint">
+            {isDialogue
+              ? 'JSON oder Tabelle (.csv, .tsv) mit den Spalten Sprecher, Sprache und Text'
+              : 'Word (.docx), PDF, Markdown, Text oder Untertitel (.srt, .vtt)'}
+          </p>
+          {uploadWarning && <p className="inline-error">{uploadWarning}</p>}
            <input
             type="file"
             ref={fileInputRef}
             onChange={handleFileChange}
-            accept=".txt"
+            accept={isDialogue ? DIALOGUE_FILE_ACCEPT : SOURCE_FILE_ACCEPT}
             style={{ display: 'none' }}
           />
         </div>
@@ -528,15 +4396,8 @@ const SettingsPanel = ({ settings, setSettings, onStart, onFileUpload, isLoading
             {renderSourceTypeOptions()}
             {renderAiOptions()}
             {renderUploadOptions()}
-            {settings.mode !== 'Stegreifübersetzen' && (
-             <div className="form-group">
-                <label htmlFor="voiceQuality">Stimmqualität</label>
-                <select id="voiceQuality" className="form-control" value={settings.voiceQuality} onChange={e => handleSettingChange('voiceQuality', e.target.value as VoiceQuality)}>
-                    <option value="Standard">Standard</option>
-                    <option value="Premium">Premium (bessere Qualität)</option>
-                </select>
-            </div>
-            )}
+            {renderAudioOptions()}
+            {renderVoiceOptions()}
             {settings.mode !== 'Stegreifübersetzen' && (
              <div className="form-group">
                 <label htmlFor="playbackRate">Lesegeschwindigkeit: {settings.playbackRate.toFixed(1)}x</label>
@@ -552,6 +4413,19 @@ const SettingsPanel = ({ settings, setSettings, onStart, onFileUpload, isLoading
                 />
             </div>
             )}
+            {settings.mode === 'Vortragsdolmetschen' && renderSegmentationOptions()}
+            <div className="form-group">
+                <label htmlFor="recognitionBackend">Spracherkennung</label>
+                <select id="recognitionBackend" className="form-control" value={settings.recognitionBackend} onChange={e => handleSettingChange('recognitionBackend', e.target.value)}>
+                    {(Object.keys(RECOGNITION_BACKEND_LABELS) as RecognitionBackendId[]).map(id => <option key={id} value={id}>{RECOGNITION_BACKEND_LABELS[id]}</option>)}
+                </select>
+                {settings.recognitionBackend === 'whisper' && <p className="upload-hint">Ihre Verdolmetschung wird in Abschnitten von {WHISPER_CHUNK_SECONDS} Sekunden an den Whisper-Server geschickt, der Text erscheint daher mit Verzögerung.</p>}
+            </div>
+            <div className="form-group">
+                <label htmlFor="exerciseHistory">Frühere Übungen</label>
+                {renderExerciseHistory()}
+                {historyError && <p className="inline-error">{historyError}</p>}
+            </div>
         </div>
         <div className="settings-footer">
             <button className="btn btn-primary btn-large" onClick={onStart} disabled={isLoading}>
@@ -562,12 +4436,21 @@ const SettingsPanel = ({ settings, setSettings, onStart, onFileUpload, isLoading
   );
 };
 
-const PracticeArea = ({ settings, exerciseState, originalText, dialogue, errorMessage }: {
+const PracticeArea = ({ settings, exerciseState, originalText, dialogue, glossary, dialogueScript, sourceAudio, generatingMessage, errorMessage, onCancelGeneration, onConfirmDialogueScript, onDiscardDialogueScript, onGlossaryChange, onFinishPreparation }: {
   settings: Settings;
-  exerciseState: 'idle' | 'generating' | 'ready' | 'error';
+  exerciseState: ExerciseState;
   originalText: string;
   dialogue: DialogueSegment[];
+  glossary: Glossary | null;
+  dialogueScript: DialogueScript | null;
+  sourceAudio: SourceAudio | null;
+  generatingMessage: string;
   errorMessage: string;
+  onCancelGeneration: () => void;
+  onConfirmDialogueScript: () => void;
+  onDiscardDialogueScript: () => void;
+  onGlossaryChange: (glossary: Glossary) => void;
+  onFinishPreparation: () => void;
 }) => {
   if (exerciseState === 'idle') {
     return (
@@ -584,7 +4467,8 @@ const PracticeArea = ({ settings, exerciseState, originalText, dialogue, errorMe
         <div className="panel practice-area">
             <div className="loading-overlay">
                 <div className="spinner"></div>
-                <p>KI-Übung wird für Sie erstellt...</p>
+                <p>{generatingMessage}</p>
+                <button className="btn btn-secondary" onClick={onCancelGeneration}>Abbrechen</button>
             </div>
         </div>
     );
@@ -597,28 +4481,277 @@ const PracticeArea = ({ settings, exerciseState, originalText, dialogue, errorMe
                 <p>{errorMessage}</p>
             </div>
         </div>
-    );
-  }
-  // Render the correct practice component based on the mode
-  switch(settings.mode) {
-      case "Vortragsdolmetschen":
-          return <MonologuePractice settings={settings} originalText={originalText} mode="consecutive" />;
-      case "Simultandolmetschen":
-          return <MonologuePractice settings={settings} originalText={originalText} mode="simultaneous" />;
-      case "Shadowing":
-          return <MonologuePractice settings={settings} originalText={originalText} mode="shadowing" />;
-      case "Gesprächsdolmetschen":
-          return <DialoguePractice settings={settings} dialogue={dialogue} />;
-      case "Stegreifübersetzen":
-          return <SightTranslationPractice settings={settings} originalText={originalText} />;
-      default:
-          return <div className="panel practice-area"><p>Modus nicht gefunden.</p></div>;
-  }
+    );
+  }
+  if (exerciseState === 'reviewing' && dialogueScript) {
+     return <DialogueScriptPreview script={dialogueScript} onConfirm={onConfirmDialogueScript} onDiscard={onDiscardDialogueScript} />;
+  }
+  if (exerciseState === 'preparing' && glossary) {
+     return (
+        <GlossaryPreparation
+            settings={settings}
+            originalText={originalText}
+            dialogue={dialogue}
+            glossary={glossary}
+            onGlossaryChange={onGlossaryChange}
+            onContinue={onFinishPreparation}
+        />
+    );
+  }
+  // Render the correct practice component based on the mode
+  switch(settings.mode) {
+      case "Vortragsdolmetschen":
+          return <MonologuePractice settings={settings} originalText={originalText} sourceAudio={sourceAudio} glossary={glossary} mode="consecutive" />;
+      case "Simultandolmetschen":
+          return <MonologuePractice settings={settings} originalText={originalText} sourceAudio={sourceAudio} glossary={glossary} mode="simultaneous" />;
+      case "Shadowing":
+          return <MonologuePractice settings={settings} originalText={originalText} sourceAudio={sourceAudio} glossary={null} mode="shadowing" />;
+      case "Gesprächsdolmetschen":
+          return <DialoguePractice settings={settings} dialogue={dialogue} glossary={glossary} />;
+      case "Stegreifübersetzen":
+          return <SightTranslationPractice settings={settings} originalText={originalText} glossary={glossary} />;
+      default:
+          return <div className="panel practice-area"><p>Modus nicht gefunden.</p></div>;
+  }
+};
+
+const DialogueScriptPreview = ({ script, onConfirm, onDiscard }: {
+  script: DialogueScript;
+  onConfirm: () => void;
+  onDiscard: () => void;
+}) => {
+  const isValid = script.errors.length === 0;
+  return (
+    <div className="panel practice-area">
+      <h2>Vorschau: Dialogskript</h2>
+      <p className="glossary-intro">
+        {script.fileName} · {script.segments.length} Beiträge{script.languages.length > 0 && ` · ${script.languages.join(' ↔ ')}`}
+        {isValid && script.languages.length === 2 && `. Die Übung wird mit ${script.languages[0]} als Ausgangssprache und ${script.languages[1]} als Zielsprache angelegt.`}
+      </p>
+      {!isValid && (
+        <div className="error-banner">
+          <p>Das Skript kann so nicht verwendet werden:</p>
+          <ul className="script-errors">
+            {script.errors.map((error, i) => <li key={i}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+      <div className="glossary-table-wrapper">
+        <table className="glossary-table script-table">
+          <thead>
+            <tr>
+              <th>Nr.</th>
+              <th>Sprecher</th>
+              <th>Sprache</th>
+              <th>Text</th>
+            </tr>
+          </thead>
+          <tbody>
+            {script.segments.map((segment, index) => (
+              <tr key={index}>
+                <td>{index + 1}</td>
+                <td>{segment.speaker ?? segment.type}</td>
+                <td>{segment.lang}</td>
+                <td dir={getTextDirection(segment.lang)}>{segment.text}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="practice-footer glossary-footer">
+        <button className="btn btn-secondary" onClick={onDiscard}>Verwerfen</button>
+        <button className="btn btn-primary btn-large" onClick={onConfirm} disabled={!isValid}>Skript übernehmen</button>
+      </div>
+    </div>
+  );
+};
+
+const GlossaryPreparation = ({ settings, originalText, dialogue, glossary, onGlossaryChange, onContinue }: {
+  settings: Settings;
+  originalText: string;
+  dialogue: DialogueSegment[];
+  glossary: Glossary;
+  onGlossaryChange: (glossary: Glossary) => void;
+  onContinue: () => void;
+}) => {
+  const [savedGlossaries, setSavedGlossaries] = useState<Glossary[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const unmountSignal = useUnmountSignal();
+
+  const glossaryRef = useRef(glossary);
+  glossaryRef.current = glossary;
+  const isSameLanguagePair = (g: Glossary) => g.sourceLang === glossary.sourceLang && g.targetLang === glossary.targetLang;
+
+  const updateEntries = (entries: GlossaryEntry[]) => {
+    onGlossaryChange({ ...glossaryRef.current, entries });
+    setStatusMessage('');
+  };
+
+  const handleExtract = async () => {
+    setIsExtracting(true);
+    setError(null);
+    try {
+      const extracted = await extractGlossaryTerms(settings, getExerciseSourceText(originalText, dialogue), unmountSignal);
+      updateEntries(mergeGlossaryEntries(glossaryRef.current.entries, extracted));
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error("Error extracting glossary terms:", err);
+      setError(`Die Begriffe konnten nicht extrahiert werden. ${describeAiError(err)}`);
+    } finally {
+      if (!unmountSignal.aborted) setIsExtracting(false);
+    }
+  };
+
+  // A saved glossary for the topic is loaded automatically; only without one
+  // are the terms extracted from the text right away.
+  useEffect(() => {
+    const prepare = async () => {
+      let saved: Glossary[] = [];
+      try {
+        saved = await listGlossaries();
+      } catch (err) {
+        console.warn("Loading saved glossaries failed:", err);
+      }
+      if (unmountSignal.aborted) return;
+      setSavedGlossaries(saved);
+      const topic = glossaryRef.current.topic.trim().toLowerCase();
+      const match = saved.find(g => isSameLanguagePair(g) && g.topic.trim().toLowerCase() === topic);
+      if (match) {
+        onGlossaryChange(match);
+        setStatusMessage(`Gespeichertes Glossar „${match.topic}“ geladen.`);
+      } else if (glossaryRef.current.entries.length === 0) {
+        handleExtract();
+      }
+    };
+    prepare();
+  }, []);
+
+  const handleLoadSaved = (id: string) => {
+    const saved = savedGlossaries.find(g => g.id === id);
+    if (!saved) return;
+    onGlossaryChange({ ...glossaryRef.current, entries: mergeGlossaryEntries(glossaryRef.current.entries, saved.entries) });
+    setStatusMessage(`${saved.entries.length} Einträge aus „${saved.topic}“ übernommen.`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const imported = await parseGlossaryFile(file, glossary.sourceLang, glossary.targetLang);
+      updateEntries(mergeGlossaryEntries(glossaryRef.current.entries, imported));
+      setStatusMessage(`${imported.length} Einträge aus ${file.name} importiert.`);
+    } catch (err) {
+      console.error("Error importing glossary:", err);
+      setError(`Das Glossar konnte nicht importiert werden. ${(err as Error).message}`);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveGlossary(glossaryRef.current);
+      onGlossaryChange(saved);
+      setSavedGlossaries(list => [...list.filter(g => g.id !== saved.id), saved]);
+      setStatusMessage('Glossar gespeichert.');
+    } catch (err) {
+      console.error("Error saving glossary:", err);
+      setError(`Das Glossar konnte nicht gespeichert werden. ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleContinue = async () => {
+    const entries = glossary.entries.filter(entry => entry.source.trim() && entry.target.trim());
+    glossaryRef.current = { ...glossary, entries };
+    onGlossaryChange(glossaryRef.current);
+    // Saving is best effort here; the exercise must not depend on it.
+    if (entries.length > 0) await handleSave();
+    onContinue();
+  };
+
+  const handleEntryChange = (index: number, field: keyof GlossaryEntry, value: string) => {
+    updateEntries(glossary.entries.map((entry, i) => i === index ? { ...entry, [field]: value } : entry));
+  };
+
+  const otherGlossaries = savedGlossaries.filter(g => isSameLanguagePair(g) && g.id !== glossary.id);
+
+  return (
+    <div className="panel practice-area">
+      <h2>Vorbereitung: Glossar</h2>
+      <p className="glossary-intro">
+        Recherchieren Sie die Terminologie vor der Übung. Die Einträge werden unter dem Thema gespeichert und bei der nächsten Übung zum selben Thema wieder geladen.
+      </p>
+      <div className="glossary-toolbar">
+        <div className="form-group">
+          <label htmlFor="glossaryTopic">Thema des Glossars</label>
+          <input id="glossaryTopic" type="text" className="form-control" value={glossary.topic} onChange={e => onGlossaryChange({ ...glossary, topic: e.target.value })} placeholder="z. B. Geldpolitik" />
+        </div>
+        {otherGlossaries.length > 0 && (
+          <div className="form-group">
+            <label htmlFor="savedGlossary">Gespeichertes Glossar hinzufügen</label>
+            <select id="savedGlossary" className="form-control" value="" onChange={e => handleLoadSaved(e.target.value)}>
+              <option value="" disabled>Glossar wählen...</option>
+              {otherGlossaries.map(g => <option key={g.id} value={g.id}>{g.topic || 'ohne Thema'} ({g.entries.length} Einträge)</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+      <div className="glossary-actions">
+        <button className="btn btn-secondary" onClick={handleExtract} disabled={isExtracting}>
+          {isExtracting ? 'Begriffe werden extrahiert...' : 'Begriffe aus dem Text extrahieren'}
+        </button>
+        <button className="btn btn-secondary" onClick={() => fileInputRef.current?.click()}>Importieren (CSV/TBX)</button>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv,.tsv,.txt,.tbx,.xml" style={{ display: 'none' }} />
+        <button className="btn btn-secondary" onClick={handleSave} disabled={isSaving || glossary.entries.length === 0}>
+          {isSaving ? 'Wird gespeichert...' : 'Glossar speichern'}
+        </button>
+      </div>
+      {error && <p className="error-banner">{error}</p>}
+      {statusMessage && <p className="glossary-status">{statusMessage}</p>}
+      <div className="glossary-table-wrapper">
+        <table className="glossary-table">
+          <thead>
+            <tr>
+              <th>{glossary.sourceLang}</th>
+              <th>{glossary.targetLang}</th>
+              <th>Anmerkung</th>
+              <th aria-label="Entfernen"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {glossary.entries.map((entry, index) => (
+              <tr key={index}>
+                <td><input type="text" className="form-control" dir={getTextDirection(glossary.sourceLang)} value={entry.source} onChange={e => handleEntryChange(index, 'source', e.target.value)} /></td>
+                <td><input type="text" className="form-control" dir={getTextDirection(glossary.targetLang)} value={entry.target} onChange={e => handleEntryChange(index, 'target', e.target.value)} /></td>
+                <td><input type="text" className="form-control" value={entry.note} onChange={e => handleEntryChange(index, 'note', e.target.value)} /></td>
+                <td><button className="btn-remove-entry" onClick={() => updateEntries(glossary.entries.filter((_, i) => i !== index))} title="Eintrag entfernen">×</button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {glossary.entries.length === 0 && !isExtracting && <p className="glossary-status">Das Glossar ist noch leer.</p>}
+      </div>
+      <div className="practice-footer glossary-footer">
+        <button className="btn btn-secondary" onClick={() => updateEntries([...glossary.entries, { source: '', target: '', note: '' }])}>Eintrag hinzufügen</button>
+        <button className="btn btn-primary btn-large" onClick={handleContinue} disabled={isSaving}>Weiter zur Übung</button>
+      </div>
+    </div>
+  );
 };
 
-const MonologuePractice = ({ settings, originalText: initialText, mode }: {
+const MonologuePractice = ({ settings, originalText: initialText, sourceAudio, glossary, mode }: {
   settings: Settings;
   originalText: string;
+  sourceAudio: SourceAudio | null;
+  glossary: Glossary | null;
   mode: 'consecutive' | 'simultaneous' | 'shadowing';
 }) => {
   const [activeTab, setActiveTab] = useState<PracticeAreaTab>('original');
@@ -629,109 +4762,375 @@ const MonologuePractice = ({ settings, originalText: initialText, mode }: {
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [feedbackError, setFeedbackError] = useState<string | null>(null);
   const [isGeneratingFeedback, setIsGeneratingFeedback] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const recognition = useRef<SpeechRecognition | null>(null);
+  const playerRef = useRef<SpeechPlayer | null>(null);
   const [isEditingOriginalText, setIsEditingOriginalText] = useState(false);
   const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const [synthesisProgress, setSynthesisProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [speechFallbackReason, setSpeechFallbackReason] = useState<string | null>(null);
+  const [audioDuration, setAudioDuration] = useState<number | null>(null);
+  const [isAdjustingLength, setIsAdjustingLength] = useState(false);
+  const [timeline, setTimeline] = useState<{ sentences: SpeechSentence[]; duration: number; isEstimated: boolean; audioUrl: string | null } | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  // Segmented consecutive practice: one rendition per segment, recorded after the segment was played.
+  const [renditions, setRenditions] = useState<string[]>([]);
+  const [pendingRendition, setPendingRendition] = useState<number | null>(null);
+  const renditionIndexRef = useRef<number | null>(null);
+  const microphones = useMicrophones();
+  const liveCaption = useLiveCaptionPreference();
+  const learnerRecorder = useLearnerRecorder(microphones.microphoneId);
+  // Ear-voice span in simultaneous and shadowing: when the source and the learner reached which position.
+  const sourceClockRef = useRef<SourceClockSample[]>([]);
+  const voiceProgressRef = useRef<VoiceProgressSample[]>([]);
+  const spokenWordsRef = useRef(0);
+  const [earVoiceSpan, setEarVoiceSpan] = useState<EarVoiceSpanReport | null>(null);
+  // Recognized segments per recording key, like the learner recordings: 0 for the whole speech, else the rendition.
+  const [recognizedSegments, setRecognizedSegments] = useState<Record<number, TranscriptSegment[]>>({});
+  const [alignment, setAlignment] = useState<AlignedPair[] | null>(null);
+  const [isAligning, setIsAligning] = useState(false);
+  const [alignmentError, setAlignmentError] = useState<string | null>(null);
+  const unmountSignal = useUnmountSignal();
 
   const targetLang = mode === 'shadowing' ? settings.sourceLang : settings.targetLang;
 
+  // The audio duration is measured at 1.0x; what counts is the time at the chosen playback rate.
+  const speakingSeconds = audioDuration !== null ? audioDuration / settings.playbackRate : null;
+  const durationTarget = SPEECH_DURATION_TARGETS[settings.speechLength];
+  const isOutsideDurationTarget = settings.sourceType === 'ai' && speakingSeconds !== null
+    && (speakingSeconds < durationTarget.minMinutes * 60 || speakingSeconds > durationTarget.maxMinutes * 60);
+
+  const getSegments = (sentences: SpeechSentence[], duration: number) =>
+    mode === 'consecutive' ? buildPlaybackSegments(sentences, duration, settings.segmentation) : [];
+  const segments = useMemo(() => timeline ? getSegments(timeline.sentences, timeline.duration) : [], [timeline, mode, settings.segmentation]);
+  const segmentsRef = useRef(segments);
+  useEffect(() => { segmentsRef.current = segments; }, [segments]);
+  const segmentIndexAt = (seconds: number) => {
+    const index = segments.findIndex(segment => seconds < segment.end - TIMELINE_TOLERANCE_SECONDS);
+    return index < 0 ? segments.length - 1 : index;
+  };
+
+  // Segmented renditions are labelled so that the feedback can match them with the segments of the speech.
+  const isSegmentedTranscript = renditions.length > 0;
+  const transcript = isSegmentedTranscript
+    ? renditions.map((rendition, i) => rendition?.trim() ? `[Abschnitt ${i + 1}] ${rendition.trim()}` : '').filter(Boolean).join('\n\n')
+    : rawTranscript;
+
   useEffect(() => {
-    if (audioRef.current) {
-        audioRef.current.playbackRate = settings.playbackRate;
-    }
+    playerRef.current?.setPlaybackRate(settings.playbackRate);
   }, [settings.playbackRate]);
 
-  useEffect(() => {
-    const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (SpeechRecognitionAPI) {
-        recognition.current = new SpeechRecognitionAPI();
-        recognition.current.continuous = true;
-        recognition.current.interimResults = true;
-        recognition.current.lang = LANG_MAP[targetLang];
-
-        recognition.current.onresult = (event: SpeechRecognitionEvent) => {
-            let finalTranscript = '';
-            for (let i = event.resultIndex; i < event.results.length; ++i) {
-                if (event.results[i].isFinal) {
-                    finalTranscript += event.results[i][0].transcript;
-                }
-            }
-            setRawTranscript(prev => prev + finalTranscript);
-        };
-        recognition.current.onerror = (event: SpeechRecognitionErrorEvent) => {
-            console.error("Speech recognition error", event.error, event.message);
-            setIsRecording(false);
-        };
-        recognition.current.onend = () => {
-             if (isRecording) {
-                 recognition.current?.start();
-             }
-        };
+  // Browser speech keeps talking after the component is gone unless it is stopped.
+  useEffect(() => () => playerRef.current?.dispose(), []);
 
+  const handleRecognitionUpdate = ({ final, interim, segments: recognized }: RecognitionUpdate) => {
+    spokenWordsRef.current += countWords(final);
+    const spokenWords = spokenWordsRef.current + countWords(interim);
+    const progress = voiceProgressRef.current;
+    if (spokenWords > (progress[progress.length - 1]?.words ?? 0)) progress.push({ wall: performance.now(), words: spokenWords });
+    if (!final) return;
+    const renditionIndex = renditionIndexRef.current;
+    setRecognizedSegments(prev => ({ ...prev, [renditionIndex ?? 0]: [...(prev[renditionIndex ?? 0] ?? []), ...recognized] }));
+    if (renditionIndex === null) {
+        setRawTranscript(prev => prev + final);
     } else {
-        console.warn("Speech Recognition API not supported in this browser.");
+        setRenditions(prev => {
+            const next = [...prev];
+            next[renditionIndex] = (next[renditionIndex] ?? '') + final;
+            return next;
+        });
     }
-  }, [targetLang, isRecording]);
+  };
+
+  const recognizer = useSpeechRecognition(settings.recognitionBackend, {
+    onUpdate: update => handleRecognitionUpdate(update),
+    onSessionEnd: () => {
+        if (isRecording) stopRecording();
+    },
+  }, microphones.microphoneId);
+
+  const updateEarVoiceSpan = () => {
+    if (!timeline || (mode !== 'simultaneous' && mode !== 'shadowing')) return;
+    setEarVoiceSpan(measureEarVoiceSpan(timeline.sentences, timeline.duration, sourceClockRef.current, voiceProgressRef.current, EAR_VOICE_SPAN_LIMITS[mode], settings.sourceLang, targetLang));
+  };
 
   const handleTabChange = async (tab: PracticeAreaTab) => {
     setActiveTab(tab);
-    if (tab === 'transcript' && rawTranscript && displayTranscript === null && !isPunctuating) {
+    // Final results can arrive after the recording was stopped.
+    if (tab === 'transcript') updateEarVoiceSpan();
+    if (tab === 'transcript' && !isSegmentedTranscript && rawTranscript && displayTranscript === null && !isPunctuating) {
         setIsPunctuating(true);
         try {
-            const result = await punctuateTextWithAI(rawTranscript, targetLang);
+            const result = await punctuateTextWithAI(rawTranscript, targetLang, unmountSignal);
             setDisplayTranscript(result);
         } catch (e) {
+            if (isCancellation(e)) return;
             console.error("Punctuation failed:", e);
             setDisplayTranscript(rawTranscript); // Fallback to raw transcript on error
         } finally {
-            setIsPunctuating(false);
+            if (!unmountSignal.aborted) setIsPunctuating(false);
         }
     }
   };
 
-  const handlePlayPause = async () => {
-    if (isPlaying) {
-      audioRef.current?.pause();
-      setIsPlaying(false);
-      return;
-    }
-    
-    if (!audioRef.current) {
+  /** Creates the player on first use; returns null when no audio could be prepared. */
+  const preparePlayer = async (): Promise<SpeechPlayer | null> => {
+    if (playerRef.current) return playerRef.current;
+    setPlaybackError(null);
+    let player: SpeechPlayer;
+    if (sourceAudio) {
+        player = createAudioElementPlayer(sourceAudio.url, false);
+    } else {
+        setIsSynthesizing(true);
         try {
-            const audioContent = await synthesizeSpeechGoogleCloud(originalText, settings.sourceLang, settings.voiceQuality);
-            const audioBlob = new Blob([Uint8Array.from(atob(audioContent), c => c.charCodeAt(0))], { type: 'audio/mpeg' });
-            const url = URL.createObjectURL(audioBlob);
-            audioRef.current = new Audio(url);
-            audioRef.current.onended = () => setIsPlaying(false);
-        } catch(error) {
+            const prepared = await createSpeechPlayer(originalText, settings.sourceLang, getSelectedVoice(settings, settings.sourceLang), {
+                signal: unmountSignal,
+                onProgress: (done, total) => setSynthesisProgress({ done, total }),
+            });
+            player = prepared.player;
+            setSpeechFallbackReason(prepared.fallbackReason);
+        } catch (error) {
+            if (isCancellation(error)) return null;
             console.error("Failed to synthesize speech:", error);
-            return;
+            setPlaybackError(`Die Sprachausgabe konnte nicht erstellt werden. ${(error as Error).message}`);
+            return null;
+        } finally {
+            if (!unmountSignal.aborted) {
+                setIsSynthesizing(false);
+                setSynthesisProgress(null);
+            }
         }
     }
-    audioRef.current.playbackRate = settings.playbackRate;
-    audioRef.current.play();
+    const updateTimeline = () => setTimeline({
+        sentences: player.sentences,
+        duration: player.getDuration(),
+        isEstimated: player.timingIsEstimated,
+        audioUrl: player.audioUrl,
+    });
+    player.onended = () => {
+        setIsPlaying(false);
+        // A segment has ended when playback stopped at its end; now its rendition is due.
+        const time = player.getCurrentTime();
+        const segmentList = segmentsRef.current;
+        if (segmentList.length === 0) return;
+        setPendingRendition(segmentList.reduce((nearest, segment, i) =>
+            Math.abs(segment.end - time) < Math.abs(segmentList[nearest].end - time) ? i : nearest, 0));
+    };
+    player.ondurationchange = seconds => {
+        setAudioDuration(seconds);
+        updateTimeline();
+    };
+    player.ontimeupdate = seconds => {
+        setCurrentTime(seconds);
+        sourceClockRef.current.push({ wall: performance.now(), media: seconds });
+    };
+    updateTimeline();
+    playerRef.current = player;
+    return player;
+  };
+
+  /** Plays from the given time; in segmented practice only up to the end of the segment that contains it. */
+  const playFrom = (player: SpeechPlayer, seconds: number) => {
+    const playerSegments = getSegments(player.sentences, player.getDuration());
+    let segment = playerSegments.find(s => seconds < s.end - TIMELINE_TOLERANCE_SECONDS);
+    if (playerSegments.length > 0 && !segment) {
+        // After the last segment, practice starts over.
+        segment = playerSegments[0];
+        player.seek(0);
+    }
+    setPendingRendition(null);
+    player.setPlaybackRate(settings.playbackRate);
+    player.play(segment?.end);
     setIsPlaying(true);
+  };
+
+  const startPlayback = async () => {
+    const player = await preparePlayer();
+    if (!player) return false;
+    playFrom(player, player.getCurrentTime());
+    return true;
+  };
 
-    if (mode === 'simultaneous' || mode === 'shadowing') {
+  const handleSeek = (seconds: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.pause();
+    player.seek(seconds);
+    setCurrentTime(seconds);
+    if (isPlaying) playFrom(player, seconds);
+  };
+
+  const handleSkipBack = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    const time = player.getCurrentTime();
+    if (player.sentences.length === 0) {
+        handleSeek(Math.max(0, time - RECORDING_SKIP_SECONDS));
+        return;
+    }
+    // Within the first second of a sentence, go to the one before, like the back button of a media player.
+    const current = findSentenceAt(player.sentences, time);
+    const target = time - player.sentences[current].start < 1 ? Math.max(0, current - 1) : current;
+    handleSeek(player.sentences[target].start);
+  };
+
+  const handleReplaySegment = (index: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.pause();
+    player.seek(segments[index].start);
+    playFrom(player, segments[index].start);
+  };
+
+  const handlePlayPause = async () => {
+    if (isPlaying) {
+      playerRef.current?.pause();
+      setIsPlaying(false);
+      return;
+    }
+    if (await startPlayback() && (mode === 'simultaneous' || mode === 'shadowing')) {
         handleRecord();
     }
   };
 
-  const handleRecord = () => {
-    if (isRecording) {
-      recognition.current?.stop();
-      setIsRecording(false);
+  const resetAudio = () => {
+    if (playerRef.current) {
+        playerRef.current.dispose();
+        setIsPlaying(false);
+        playerRef.current = null;
+    }
+    setPlaybackError(null);
+    setSpeechFallbackReason(null);
+    setAudioDuration(null);
+    setTimeline(null);
+    setCurrentTime(0);
+    setPendingRendition(null);
+  };
+
+  const handleRetryCloudVoice = () => {
+    resetAudio();
+    startPlayback();
+  };
+
+  // Re-runs the paragraph-wise length adjustment with the speaking rate measured
+  // on the synthesized audio instead of the per-language estimate.
+  const handleAdjustLength = async () => {
+    if (audioDuration === null) return;
+    const measuredWordsPerMinute = countWords(originalText) / (audioDuration / 60);
+    setIsAdjustingLength(true);
+    try {
+        const adjusted = await adjustTextLength(originalText, settings, unmountSignal, measuredWordsPerMinute);
+        resetAudio();
+        setOriginalText(adjusted);
+    } catch (error) {
+        if (isCancellation(error)) return;
+        console.error("Length adjustment failed:", error);
+        setPlaybackError(`Die Länge konnte nicht angepasst werden. ${describeAiError(error)}`);
+    } finally {
+        if (!unmountSignal.aborted) setIsAdjustingLength(false);
+    }
+  };
+
+  const stopRecording = () => {
+    recognizer.stop();
+    learnerRecorder.stop();
+    setIsRecording(false);
+    updateEarVoiceSpan();
+    const renditionIndex = renditionIndexRef.current;
+    const nextSegment = renditionIndex !== null ? segments[renditionIndex + 1] : undefined;
+    if (nextSegment && playerRef.current) {
+        // After the rendition, the speech continues with the next segment.
+        playerRef.current.seek(nextSegment.start);
+        playFrom(playerRef.current, nextSegment.start);
+    }
+  };
+
+  // An uploaded recording is recognized instead of the microphone and kept as the learner recording.
+  const startRecording = (upload?: File) => {
+    if (segments.length > 0) {
+        const index = pendingRendition ?? segmentIndexAt(currentTime);
+        renditionIndexRef.current = index;
+        setRenditions(prev => {
+            const next = [...prev];
+            next[index] = '';
+            return next;
+        });
+        setPendingRendition(null);
+        setRecognizedSegments(prev => ({ ...prev, [index]: [] }));
+        if (upload) learnerRecorder.attach(index, upload);
+        else learnerRecorder.start(index);
     } else {
-      setRawTranscript('');
-      setDisplayTranscript(null);
-      setFeedback(null);
-      recognition.current?.start();
-      setIsRecording(true);
+        renditionIndexRef.current = null;
+        setRenditions([]);
+        setRecognizedSegments({});
+        learnerRecorder.clear();
+        if (upload) learnerRecorder.attach(0, upload);
+        else learnerRecorder.start(0, playerRef.current?.getCurrentTime() ?? null);
+        sourceClockRef.current = playerRef.current && !upload ? [{ wall: performance.now(), media: playerRef.current.getCurrentTime() }] : [];
+        voiceProgressRef.current = [];
+        spokenWordsRef.current = 0;
+        setEarVoiceSpan(null);
+    }
+    setRawTranscript('');
+    setDisplayTranscript(null);
+    setFeedback(null);
+    setAlignment(null);
+    setAlignmentError(null);
+    if (upload) {
+        recognizer.start(targetLang, createRecordingRecognitionBackend(upload, settings.recognitionBackend));
+    } else {
+        recognizer.start(targetLang);
+        setIsRecording(true);
+    }
+  };
+
+  const handleAlign = async () => {
+    const interpretation = displayTranscript ?? transcript;
+    if (!interpretation) return;
+    setIsAligning(true);
+    setAlignmentError(null);
+    try {
+        setAlignment(await alignInterpretation(originalText, interpretation, settings.sourceLang, targetLang, unmountSignal));
+    } catch (error) {
+        if (isCancellation(error)) return;
+        console.error("Aligning the interpretation failed:", error);
+        setAlignmentError(`Der Abgleich konnte nicht erstellt werden. ${describeAiError(error)}`);
+    } finally {
+        if (!unmountSignal.aborted) setIsAligning(false);
     }
   };
+
+  const handleRecord = () => {
+    if (isRecording) stopRecording();
+    else startRecording();
+  };
+
+  const handleRenditionChange = (index: number, text: string) => {
+    setRenditions(prev => {
+        const next = [...prev];
+        next[index] = text;
+        return next;
+    });
+  };
   
+  const handleChooseAlternative = (key: number, index: number, text: string) => {
+    const recognized = recognizedSegments[key];
+    const updated = recognized.map((segment, i) => i === index ? chooseSegmentAlternative(segment, text) : segment);
+    setRecognizedSegments(prev => ({ ...prev, [key]: updated }));
+    if (isSegmentedTranscript) {
+        const rendition = replaceRecognizedText(renditions[key] ?? '', recognized[index].text, text);
+        if (rendition !== null) handleRenditionChange(key, rendition);
+        return rendition !== null;
+    }
+    setRawTranscript(joinTranscriptSegments(updated));
+    if (displayTranscript === null) return true;
+    const punctuated = replaceRecognizedText(displayTranscript, recognized[index].text, text);
+    if (punctuated !== null) setDisplayTranscript(punctuated);
+    return punctuated !== null;
+  };
+
   const handleEditOriginalTextToggle = () => {
     setIsEditingOriginalText(prev => !prev);
   };
@@ -741,28 +5140,38 @@ const MonologuePractice = ({ settings, originalText: initialText, mode }: {
   };
   
   const getFeedback = async () => {
-      const transcriptForFeedback = displayTranscript ?? rawTranscript;
+      const transcriptForFeedback = displayTranscript ?? transcript;
       if (!transcriptForFeedback) return;
+      const originalForFeedback = isSegmentedTranscript && segments.every(segment => segment.text)
+          ? segments.map((segment, i) => `[Abschnitt ${i + 1}] ${segment.text}`).join('\n\n')
+          : originalText;
+      const uncertainPassages = Object.entries(recognizedSegments).flatMap(([key, recognized]) =>
+          describeUncertainSegments(recognized).map(passage => isSegmentedTranscript ? `[Abschnitt ${Number(key) + 1}] ${passage}` : passage));
+      const deliveryMetrics = measureDelivery(Object.values(recognizedSegments).map(recognized => ({ segments: recognized, lang: targetLang })));
+      const segmentNote = isSegmentedTranscript
+          ? '\n        Die Rede wurde abschnittsweise konsekutiv gedolmetscht; jede Verdolmetschung ist mit ihrem Abschnitt gekennzeichnet. Fehlende Abschnitte wurden nicht verdolmetscht.\n'
+          : '';
       
       setIsGeneratingFeedback(true);
       setFeedback(null);
+      setFeedbackError(null);
       setActiveTab('feedback');
 
       const prompt = `
         Kontext: Eine Dolmetschübung im Modus "${settings.mode}".
-        Ausgangssprache: ${settings.sourceLang}
-        Zielsprache: ${targetLang}
+        Ausgangssprache: ${getPromptLanguageName(settings.sourceLang)}
+        Zielsprache: ${getPromptLanguageName(targetLang)}
         
         Originaltext:
         """
-        ${originalText}
+        ${originalForFeedback}
         """
 
         Verdolmetschung des Benutzers:
         """
         ${transcriptForFeedback}
         """
-
+${segmentNote}${buildUncertaintyPrompt(uncertainPassages)}
         Aufgabe:
         Analysiere die Verdolmetschung. Gib dein Feedback in zwei Hauptkategorien: "Inhaltliche Richtigkeit" und "Sprachliche Richtigkeit".
 
@@ -778,7 +5187,7 @@ const MonologuePractice = ({ settings, originalText: initialText, mode }: {
            - Identifiziere bis zu 5 signifikante Fehler oder verbesserungswürdige Stellen.
            - Klassifiziere jeden Fehler als "Inhalt" oder "Sprache".
            - Gib für jeden Fehler den originalen Teil, die Interpretation des Nutzers, einen Korrekturvorschlag und eine kurze Erklärung an.
-        
+        ${buildTerminologyCheckPrompt(glossary)}${buildDeliveryPrompt(deliveryMetrics)}
         Gib deine Antwort NUR als JSON-Objekt im folgenden Format aus. Keine zusätzlichen Texte oder Erklärungen.
 
         {
@@ -798,19 +5207,13 @@ const MonologuePractice = ({ settings, originalText: initialText, mode }: {
         }
       `;
       try {
-          const feedbackText = await generateContentWithRetry(prompt);
-          const jsonStart = feedbackText.indexOf('{');
-          const jsonEnd = feedbackText.lastIndexOf('}');
-          if (jsonStart === -1 || jsonEnd === -1) {
-              throw new Error("AI response does not contain a JSON object.");
-          }
-          const jsonString = feedbackText.substring(jsonStart, jsonEnd + 1);
-          const feedbackJson = JSON.parse(jsonString);
-          setFeedback(feedbackJson);
+          setFeedback(await generateStructuredContent(prompt, 'feedback', 'object', value => validateFeedback(value, hasGlossaryEntries(glossary), deliveryMetrics), unmountSignal));
       } catch (error) {
+          if (isCancellation(error)) return;
           console.error("Error getting feedback:", error);
+          setFeedbackError(`Das Feedback konnte nicht erstellt werden. ${describeAiError(error)}`);
       } finally {
-          setIsGeneratingFeedback(false);
+          if (!unmountSignal.aborted) setIsGeneratingFeedback(false);
       }
   };
 
@@ -819,38 +5222,92 @@ const MonologuePractice = ({ settings, originalText: initialText, mode }: {
       <div className="tabs">
         <button className={`tab-btn ${activeTab === 'original' ? 'active' : ''}`} onClick={() => handleTabChange('original')}>Originaltext</button>
         <button className={`tab-btn ${activeTab === 'transcript' ? 'active' : ''}`} onClick={() => handleTabChange('transcript')}>Meine Verdolmetschung</button>
-        <button className={`tab-btn ${activeTab === 'feedback' ? 'active' : ''}`} onClick={() => handleTabChange('feedback')} disabled={!rawTranscript}>Feedback</button>
+        <button className={`tab-btn ${activeTab === 'feedback' ? 'active' : ''}`} onClick={() => handleTabChange('feedback')} disabled={!transcript}>Feedback</button>
       </div>
       <div className="tab-content">
         {activeTab === 'original' && (
           <>
             <div className="controls-bar">
-                 <button onClick={handlePlayPause} className="btn-play-pause" disabled={!originalText}>
+                 <button onClick={handlePlayPause} className="btn-play-pause" disabled={!originalText || isSynthesizing}>
                     {isPlaying ? (
                         <svg viewBox="0 0 24 24" fill="currentColor"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"></path></svg>
                     ) : (
                         <svg viewBox="0 0 24 24" fill="currentColor"><path d="M8 5v14l11-7z"></path></svg>
                     )}
                  </button>
-                 <p>Originaltext anhören</p>
+                 <p title={sourceAudio?.fileName}>{sourceAudio ? 'Originalaufnahme anhören' : 'Originaltext anhören'}</p>
+                 {isSynthesizing && synthesisProgress && (
+                    <span className="synthesis-progress">
+                        <progress value={synthesisProgress.done} max={synthesisProgress.total} />
+                        {synthesisProgress.done}/{synthesisProgress.total} Abschnitte
+                    </span>
+                 )}
+                 {playbackError && <p className="inline-error">{playbackError}</p>}
+                 {playbackError && !sourceAudio && (
+                    <button className="btn btn-secondary" onClick={handlePlayPause}>Erneut versuchen</button>
+                 )}
                  <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '1rem' }}>
-                    <span className="char-counter">{originalText.length} Zeichen</span>
-                    <button className="btn btn-secondary" onClick={handleEditOriginalTextToggle}>
+                    <span className="char-counter">
+                        {countWords(originalText)} Wörter · {originalText.length} Zeichen
+                        {speakingSeconds !== null && ` · ${formatDuration(speakingSeconds)} min`}
+                    </span>
+                    {isOutsideDurationTarget && (
+                        <>
+                            <span className="inline-error" title="Gemessen an der synthetisierten Sprachausgabe">
+                                Ziel: {durationTarget.minMinutes.toLocaleString('de-DE')}–{durationTarget.maxMinutes.toLocaleString('de-DE')} min
+                            </span>
+                            <button className="btn btn-secondary" onClick={handleAdjustLength} disabled={isAdjustingLength}>
+                                {isAdjustingLength ? 'Wird angepasst...' : 'Länge anpassen'}
+                            </button>
+                        </>
+                    )}
+                    <button className="btn btn-secondary" onClick={handleEditOriginalTextToggle} disabled={isSynthesizing}>
                         {isEditingOriginalText ? 'Speichern' : 'Bearbeiten'}
                     </button>
                  </div>
             </div>
+            {timeline && Number.isFinite(timeline.duration) && (
+                <SpeechTimeline
+                    currentTime={currentTime}
+                    duration={timeline.duration}
+                    isEstimated={timeline.isEstimated}
+                    hasSentences={timeline.sentences.length > 0}
+                    segments={segments}
+                    playbackRate={settings.playbackRate}
+                    onSeek={handleSeek}
+                    onSkipBack={handleSkipBack}
+                />
+            )}
+            {segments.length > 0 && (
+                <div className="segment-status">
+                    <span>Abschnitt {(pendingRendition ?? segmentIndexAt(currentTime)) + 1} von {segments.length}</span>
+                    {pendingRendition !== null && (
+                        <>
+                            <strong>Jetzt verdolmetschen: Starten Sie die Aufnahme.</strong>
+                            <button className="btn btn-secondary" onClick={() => handleReplaySegment(pendingRendition)}>Abschnitt wiederholen</button>
+                        </>
+                    )}
+                    <span className="char-counter">{renditions.filter(Boolean).length} von {segments.length} verdolmetscht</span>
+                </div>
+            )}
+            {speechFallbackReason && (
+                <p className="upload-hint">
+                    Die Cloud-Stimme ist nicht verfügbar, es spricht die Sprachausgabe des Browsers. {speechFallbackReason}{' '}
+                    <button className="btn btn-secondary" onClick={handleRetryCloudVoice} disabled={isSynthesizing}>Cloud-Stimme erneut versuchen</button>
+                </p>
+            )}
+            {sourceAudio?.isTranscribed && (
+                <p className="upload-hint">Der Text wurde automatisch aus der Aufnahme transkribiert. Prüfen und korrigieren Sie ihn vor dem Feedback über „Bearbeiten“.</p>
+            )}
             <div className="text-area">
                 <textarea
                     className={`text-area-editor ${isEditingOriginalText ? 'is-editing' : ''}`}
+                    dir={getTextDirection(settings.sourceLang)}
                     value={originalText}
                     onChange={(e) => {
                         setOriginalText(e.target.value);
-                        if (audioRef.current) {
-                            audioRef.current.pause();
-                            setIsPlaying(false);
-                            audioRef.current = null;
-                        }
+                        // A recording stays the same; only its reference text is corrected.
+                        if (!sourceAudio) resetAudio();
                     }}
                     readOnly={!isEditingOriginalText}
                 />
@@ -858,7 +5315,42 @@ const MonologuePractice = ({ settings, originalText: initialText, mode }: {
           </>
         )}
         {activeTab === 'transcript' && (
-            isPunctuating ? (
+            isSegmentedTranscript ? (
+                <div className="structured-transcript text-area">
+                    {segments.map((segment, index) => (
+                        <div key={index} className="transcript-segment">
+                            <div className="transcript-segment-header">
+                                <h4>Abschnitt {index + 1}</h4>
+                                <span className="char-counter">{formatDuration(segment.start / settings.playbackRate)}–{formatDuration(segment.end / settings.playbackRate)}</span>
+                            </div>
+                            {segment.text && <p className="transcript-segment-original" dir={getTextDirection(settings.sourceLang)}>{segment.text}</p>}
+                            {learnerRecorder.recordings[index] && (
+                                <LearnerRecordingPlayer recording={learnerRecorder.recordings[index]} fileName={`verdolmetschung-abschnitt-${index + 1}`} />
+                            )}
+                            {recognizedSegments[index] && (
+                                <RecognitionReview segments={recognizedSegments[index]} lang={targetLang} onChoose={(i, text) => handleChooseAlternative(index, i, text)} />
+                            )}
+                            <textarea
+                                className="text-area-editor is-editing"
+                                dir={getTextDirection(targetLang)}
+                                value={renditions[index] ?? ''}
+                                onChange={e => handleRenditionChange(index, e.target.value)}
+                                placeholder="Keine Aufnahme für diesen Abschnitt."
+                                style={{ width: '100%', minHeight: '80px', marginTop: '0.5rem' }}
+                            />
+                        </div>
+                    ))}
+                    <SentenceAlignment
+                        pairs={alignment}
+                        isLoading={isAligning}
+                        error={alignmentError}
+                        onAlign={handleAlign}
+                        canAlign={!isRecording && !!transcript}
+                        sourceLang={settings.sourceLang}
+                        targetLang={targetLang}
+                    />
+                </div>
+            ) : isPunctuating ? (
                  <div className="loading-overlay" style={{ position: 'relative', background: 'transparent' }}>
                     <div className="spinner"></div>
                     <p>Transkript wird erstellt...</p>
@@ -866,6 +5358,14 @@ const MonologuePractice = ({ settings, originalText: initialText, mode }: {
             ) : (
                  <>
                     <div className="controls-bar">
+                        {learnerRecorder.recordings[0] && (
+                            <LearnerRecordingPlayer
+                                recording={learnerRecorder.recordings[0]}
+                                fileName="verdolmetschung"
+                                sourceUrl={timeline?.audioUrl}
+                                playbackRate={settings.playbackRate}
+                            />
+                        )}
                         <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '1rem' }}>
                             <span className="char-counter">{(displayTranscript ?? '').length} Zeichen</span>
                             <button className="btn btn-secondary" onClick={handleEditTranscriptToggle}>
@@ -873,36 +5373,60 @@ const MonologuePractice = ({ settings, originalText: initialText, mode }: {
                             </button>
                         </div>
                     </div>
+                    {earVoiceSpan && <EarVoiceSpanDisplay report={earVoiceSpan} playbackRate={settings.playbackRate} />}
+                    {recognizedSegments[0] && <RecognitionReview segments={recognizedSegments[0]} lang={targetLang} onChoose={(i, text) => handleChooseAlternative(0, i, text)} />}
                     <div className="text-area">
                        <textarea 
                             className={`text-area-editor ${isEditingTranscript ? 'is-editing' : ''}`}
+                            dir={getTextDirection(targetLang)}
                             value={displayTranscript ?? ''} 
                             onChange={(e) => setDisplayTranscript(e.target.value)} 
                             readOnly={!isEditingTranscript}
                             placeholder="Hier erscheint Ihre Verdolmetschung nach der Aufnahme..." 
                         />
                     </div>
+                    <SentenceAlignment
+                        pairs={alignment}
+                        isLoading={isAligning}
+                        error={alignmentError}
+                        onAlign={handleAlign}
+                        canAlign={!isRecording && !!(displayTranscript ?? transcript)}
+                        sourceLang={settings.sourceLang}
+                        targetLang={targetLang}
+                    />
                  </>
             )
         )}
         {activeTab === 'feedback' && (
-             <FeedbackDisplay feedback={feedback} isLoading={isGeneratingFeedback} onGenerate={getFeedback} transcriptProvided={!!(displayTranscript ?? rawTranscript)} />
+             <FeedbackDisplay feedback={feedback} error={feedbackError} isLoading={isGeneratingFeedback} onGenerate={getFeedback} transcriptProvided={!!(displayTranscript ?? transcript)} />
         )}
       </div>
+      {isRecording && liveCaption.isVisible && (
+          <LiveCaption text={renditionIndexRef.current !== null ? renditions[renditionIndexRef.current] ?? '' : rawTranscript} interim={recognizer.interim} lang={targetLang} />
+      )}
       <div className="practice-footer">
-          <p className="recording-status-text">{isRecording ? `Aufnahme in ${targetLang}...` : "Bereit zur Aufnahme"}</p>
-          <button className={`btn-record ${isRecording ? 'recording' : ''}`} onClick={handleRecord}>
+          <p className="recording-status-text">{isRecording ? `Aufnahme in ${targetLang}...` : recognizer.isListening ? "Ihre Verdolmetschung wird erkannt..." : "Bereit zur Aufnahme"}</p>
+          {recognizer.error && <p className="inline-error">{recognizer.error.message}</p>}
+          <button className={`btn-record ${isRecording ? 'recording' : ''}`} onClick={handleRecord} disabled={!isRecording && recognizer.isListening}>
             <div className="mic-icon"></div>
           </button>
+          <RecordingUploadButton onUpload={startRecording} disabled={isRecording || recognizer.isListening} />
+          <div className="recording-tools">
+              <MicrophoneControls microphones={microphones} isRecording={isRecording} backendId={settings.recognitionBackend} />
+              <button className="btn btn-secondary" onClick={liveCaption.toggle}>
+                  {liveCaption.isVisible ? 'Live-Untertitel ausblenden' : 'Live-Untertitel einblenden'}
+              </button>
+          </div>
       </div>
     </div>
   );
 };
 
 
-const DialoguePractice = ({ settings, dialogue }: {
+const DialoguePractice = ({ settings, dialogue, glossary }: {
   settings: Settings;
   dialogue: DialogueSegment[];
+  glossary: Glossary | null;
 }) => {
     type DialoguePracticeState = 'idle' | 'playing' | 'waiting_for_record' | 'recording' | 'finished';
 
@@ -912,16 +5436,20 @@ const DialoguePractice = ({ settings, dialogue }: {
     const [dialogueResults, setDialogueResults] = useState<StructuredDialogueResult[]>([]);
     const [punctuatedResults, setPunctuatedResults] = useState<StructuredDialogueResult[] | null>(null);
     const [isProcessingTranscript, setIsProcessingTranscript] = useState(false);
-    const [currentInterimTranscript, setCurrentInterimTranscript] = useState('');
     const [isTextVisible, setIsTextVisible] = useState(false);
     const [feedback, setFeedback] = useState<Feedback | null>(null);
+    const [feedbackError, setFeedbackError] = useState<string | null>(null);
     const [isGeneratingFeedback, setIsGeneratingFeedback] = useState(false);
-    const [audioUrls, setAudioUrls] = useState<string[]>([]);
+    const [players, setPlayers] = useState<SpeechPlayer[]>([]);
     const [isPreparingAudio, setIsPreparingAudio] = useState(false);
     const [audioPrepError, setAudioPrepError] = useState<string | null>(null);
+    const [speechFallbackReason, setSpeechFallbackReason] = useState<string | null>(null);
 
-    const audioRef = useRef<HTMLAudioElement | null>(null);
-    const recognition = useRef<SpeechRecognition | null>(null);
+    const activePlayerRef = useRef<SpeechPlayer | null>(null);
+    const learnerRecorder = useLearnerRecorder();
+    // Index of the result the current recording is written to; late final results still land there.
+    const resultIndexRef = useRef(0);
+    const unmountSignal = useUnmountSignal();
     const practiceStateRef = useRef(practiceState);
     useEffect(() => { practiceStateRef.current = practiceState; }, [practiceState]);
 
@@ -929,80 +5457,69 @@ const DialoguePractice = ({ settings, dialogue }: {
     const targetLang = currentSegment?.lang === settings.sourceLang ? settings.targetLang : settings.sourceLang;
 
     useEffect(() => {
-        if (audioRef.current) {
-            audioRef.current.playbackRate = settings.playbackRate;
-        }
+        activePlayerRef.current?.setPlaybackRate(settings.playbackRate);
     }, [settings.playbackRate]);
 
     useEffect(() => {
         if (dialogue && dialogue.length > 0) {
+            // Aborted when the voice changes or the component unmounts.
+            const controller = new AbortController();
+            const abortOnUnmount = () => controller.abort();
+            unmountSignal.addEventListener('abort', abortOnUnmount);
+            let preparedPlayers: SpeechPlayer[] = [];
+
             const prepareAudio = async () => {
                 setIsPreparingAudio(true);
                 setAudioPrepError(null);
+                setSpeechFallbackReason(null);
                 try {
-                    const urls = await Promise.all(
-                        dialogue.map(segment => 
-                            synthesizeSpeechGoogleCloud(segment.text, segment.lang, settings.voiceQuality)
-                                .then(audioContent => new Blob([Uint8Array.from(atob(audioContent), c => c.charCodeAt(0))], { type: 'audio/mpeg' }))
-                                .then(audioBlob => URL.createObjectURL(audioBlob))
-                        )
+                    const speakerVoices = await assignSpeakerVoices(dialogue, settings);
+                    // Each segment falls back to the browser on its own; settled results
+                    // let us release the players that were created before a failure.
+                    const results = await Promise.allSettled(
+                        dialogue.map(segment => createSpeechPlayer(segment.text, segment.lang, speakerVoices.get(getSpeakerKey(segment))!, { signal: controller.signal }))
                     );
-                    setAudioUrls(urls);
+                    const prepared = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+                    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+                    if (failure || controller.signal.aborted) {
+                        prepared.forEach(({ player }) => player.dispose());
+                        if (failure) throw failure.reason;
+                        return;
+                    }
+                    preparedPlayers = prepared.map(({ player }) => player);
+                    setPlayers(preparedPlayers);
+                    setSpeechFallbackReason(prepared.find(({ fallbackReason }) => fallbackReason)?.fallbackReason ?? null);
                 } catch (error) {
+                    if (isCancellation(error)) return;
                     console.error("Failed to prepare audio for dialogue:", error);
-                    setAudioPrepError("Fehler bei der Vorbereitung der Audiodateien. Die Übung kann nicht gestartet werden.");
+                    setAudioPrepError(`Fehler bei der Vorbereitung der Audiodateien. Die Übung kann nicht gestartet werden. ${(error as Error).message}`);
                 } finally {
-                    setIsPreparingAudio(false);
+                    if (!controller.signal.aborted) setIsPreparingAudio(false);
                 }
             };
             prepareAudio();
 
             return () => {
-                audioUrls.forEach(url => URL.revokeObjectURL(url));
+                controller.abort();
+                unmountSignal.removeEventListener('abort', abortOnUnmount);
+                preparedPlayers.forEach(player => player.dispose());
             };
         }
-    }, [dialogue, settings.voiceQuality]);
+    }, [dialogue, settings.voiceQuality, settings.voices]);
 
 
-    useEffect(() => {
-        const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
-        if (!SpeechRecognitionAPI) { console.warn("Speech Recognition not supported."); return; }
-        
-        recognition.current = new SpeechRecognitionAPI();
-        recognition.current.continuous = true;
-        recognition.current.interimResults = true;
-        
-        recognition.current.onresult = (event: SpeechRecognitionEvent) => {
-            let final = '';
-            let interim = '';
-            for (let i = event.resultIndex; i < event.results.length; ++i) {
-                if (event.results[i].isFinal) {
-                    final += event.results[i][0].transcript;
-                } else {
-                    interim += event.results[i][0].transcript;
-                }
-            }
-            if (final) {
-                setDialogueResults(prev => {
-                    const lastResult = prev[prev.length-1];
-                    const updatedLastResult = {
-                        ...lastResult,
-                        userInterpretation: (lastResult.userInterpretation || '') + final
-                    };
-                    return [...prev.slice(0, -1), updatedLastResult];
-                });
-            }
-            setCurrentInterimTranscript(interim);
-        };
-        recognition.current.onerror = (e: SpeechRecognitionErrorEvent) => {
-            console.error("Recognition error:", e);
-            if (practiceStateRef.current === 'recording') {
-                handleRecordToggle();
-            }
-        };
-
-        return () => { recognition.current?.stop(); };
-    }, []);
+    const recognizer = useSpeechRecognition(settings.recognitionBackend, {
+        onUpdate: ({ final, segments }) => {
+            if (!final) return;
+            const resultIndex = resultIndexRef.current;
+            setDialogueResults(prev => prev.map((result, i) => i === resultIndex
+                ? { ...result, userInterpretation: (result.userInterpretation || '') + final, recognition: [...(result.recognition ?? []), ...segments] }
+                : result));
+        },
+        onSessionEnd: () => {
+            if (practiceStateRef.current === 'recording') handleRecordToggle();
+        },
+    });
 
     const playSegment = (index: number) => {
         if (index >= dialogue.length) {
@@ -1010,7 +5527,7 @@ const DialoguePractice = ({ settings, dialogue }: {
             handleTabChange('transcript');
             return;
         }
-         if (audioUrls.length === 0 || !audioUrls[index]) {
+         if (!players[index]) {
             console.error(`Audio for segment ${index} is not available.`);
             setPracticeState('waiting_for_record'); // Gracefully skip to recording
             return;
@@ -1020,37 +5537,32 @@ const DialoguePractice = ({ settings, dialogue }: {
         setIsTextVisible(false);
         setPracticeState('playing');
         
-        const url = audioUrls[index];
-        if (audioRef.current) { audioRef.current.src = url; } 
-        else { audioRef.current = new Audio(url); }
-        
-        audioRef.current.playbackRate = settings.playbackRate;
-        audioRef.current.onended = () => {
-            setPracticeState('waiting_for_record');
+        const player = players[index];
+        activePlayerRef.current = player;
+        player.setPlaybackRate(settings.playbackRate);
+        player.onended = () => {
+            setPracticeState('waiting_for_record'); // Also reached when playback fails
         };
-        audioRef.current.play().catch(e => {
-            console.error("Audio playback failed:", e);
-            setPracticeState('waiting_for_record'); // Gracefully skip to recording
-        });
+        player.play();
     };
     
     const handleRecordToggle = () => {
         if (practiceState === 'recording') {
             // Stop recording
-            recognition.current?.stop();
-            setCurrentInterimTranscript('');
+            recognizer.stop();
+            learnerRecorder.stop();
             playSegment(segmentIndex + 1); // Automatically play next segment
         } else if (practiceState === 'waiting_for_record') {
             // Start recording
-            if (!recognition.current) return;
-            recognition.current.lang = LANG_MAP[targetLang];
             const newResult: StructuredDialogueResult = {
                 originalSegment: currentSegment,
                 userInterpretation: '',
                 interpretationLang: targetLang,
             };
             setDialogueResults(prev => [...prev, newResult]);
-            recognition.current.start();
+            resultIndexRef.current = dialogueResults.length;
+            recognizer.start(targetLang);
+            learnerRecorder.start(dialogueResults.length);
             setPracticeState('recording');
         }
     };
@@ -1064,7 +5576,7 @@ const DialoguePractice = ({ settings, dialogue }: {
         if (tab === 'transcript' && dialogueResults.length > 0 && !punctuatedResults) {
             setIsProcessingTranscript(true);
             try {
-                const promises = dialogueResults.map(r => punctuateTextWithAI(r.userInterpretation, r.interpretationLang));
+                const promises = dialogueResults.map(r => punctuateTextWithAI(r.userInterpretation, r.interpretationLang, unmountSignal));
                 const punctuatedTexts = await Promise.all(promises);
                 const newResults = dialogueResults.map((result, index) => ({
                     ...result,
@@ -1072,10 +5584,11 @@ const DialoguePractice = ({ settings, dialogue }: {
                 }));
                 setPunctuatedResults(newResults);
             } catch (error) {
+                if (isCancellation(error)) return;
                 console.error("Failed to punctuate dialogue results:", error);
                 setPunctuatedResults(dialogueResults); // Fallback to raw results
             } finally {
-                setIsProcessingTranscript(false);
+                if (!unmountSignal.aborted) setIsProcessingTranscript(false);
             }
         }
     };
@@ -1089,49 +5602,58 @@ const DialoguePractice = ({ settings, dialogue }: {
         });
     };
 
+    const handleChooseAlternative = (resultIndex: number, index: number, text: string) => {
+        const recognized = dialogueResults[resultIndex].recognition ?? [];
+        const updated = recognized.map((segment, i) => i === index ? chooseSegmentAlternative(segment, text) : segment);
+        setDialogueResults(prev => prev.map((result, i) => i === resultIndex ? { ...result, userInterpretation: joinTranscriptSegments(updated), recognition: updated } : result));
+        const punctuated = punctuatedResults && replaceRecognizedText(punctuatedResults[resultIndex].userInterpretation, recognized[index].text, text);
+        setPunctuatedResults(prev => prev && prev.map((result, i) => i === resultIndex ? { ...result, userInterpretation: punctuated ?? result.userInterpretation, recognition: updated } : result));
+        return !punctuatedResults || punctuated !== null;
+    };
+
     const getFeedbackForDialogue = async () => {
         const resultsForFeedback = punctuatedResults || dialogueResults;
         if (!resultsForFeedback || resultsForFeedback.length === 0) return;
         
         setIsGeneratingFeedback(true);
         setFeedback(null);
+        setFeedbackError(null);
 
         const resultsText = resultsForFeedback.map((r, i) => {
-            const segmentNumber = Math.floor(i / 2) + 1;
-            const segmentLabel = r.originalSegment.type === 'Frage' ? `Frage ${segmentNumber}` : `Antwort ${segmentNumber}`;
-            return `--- ${segmentLabel} ---
+            return `--- ${getSegmentLabel(r.originalSegment, i)} ---
             Original (${r.originalSegment.lang}): "${r.originalSegment.text}"
             Verdolmetschung (${r.interpretationLang}): "${r.userInterpretation}"`
         }).join('\n\n');
+        const uncertainPassages = resultsForFeedback.flatMap((r, i) =>
+            describeUncertainSegments(r.recognition ?? []).map(passage => `${getSegmentLabel(r.originalSegment, i)}: ${passage}`));
+        const deliveryMetrics = measureDelivery(resultsForFeedback.map(r => ({ segments: r.recognition ?? [], lang: r.interpretationLang })));
 
         const prompt = `
             Kontext: Eine Gesprächsdolmetsch-Übung. Der Benutzer dolmetscht einen Dialog zwischen zwei Personen.
             Dialogverlauf und Verdolmetschung:
             ${resultsText}
-
+${buildUncertaintyPrompt(uncertainPassages)}
             Aufgabe: Analysiere die GESAMTE Verdolmetschungsleistung über alle Segmente hinweg. Gib dein Feedback in zwei Hauptkategorien: "Inhaltliche Richtigkeit" und "Sprachliche Richtigkeit".
             1. Inhaltliche Richtigkeit: Bewerte auf einer Skala von 1-10 und gib eine Zusammenfassung.
             2. Sprachliche Richtigkeit: Bewerte auf einer Skala von 1-10 und gib eine Zusammenfassung.
             3. Fehleranalyse: Identifiziere bis zu 5 signifikante Fehler. Klassifiziere jeden als "Inhalt" oder "Sprache". Gib Details an.
-            
+            ${buildTerminologyCheckPrompt(glossary, true)}${buildDeliveryPrompt(deliveryMetrics)}
             Gib deine Antwort NUR als JSON-Objekt im folgenden Format aus:
             { "contentRating": number, "languageRating": number, "contentSummary": "string", "languageSummary": "string", "errorAnalysis": [{"original": "string", "interpretation": "string", "suggestion": "string", "explanation": "string", "type": "'Inhalt' or 'Sprache'"}] }
         `;
         try {
-            const feedbackText = await generateContentWithRetry(prompt);
-            const jsonStart = feedbackText.indexOf('{');
-            const jsonEnd = feedbackText.lastIndexOf('}');
-            if (jsonStart === -1 || jsonEnd === -1) { throw new Error("AI response does not contain a JSON object."); }
-            const jsonString = feedbackText.substring(jsonStart, jsonEnd + 1);
-            setFeedback(JSON.parse(jsonString));
-        } catch (error) { console.error("Error getting feedback for dialogue:", error); } 
-        finally { setIsGeneratingFeedback(false); }
+            setFeedback(await generateStructuredContent(prompt, 'feedback', 'object', value => validateFeedback(value, hasGlossaryEntries(glossary), deliveryMetrics), unmountSignal));
+        } catch (error) {
+            if (isCancellation(error)) return;
+            console.error("Error getting feedback for dialogue:", error);
+            setFeedbackError(`Das Feedback konnte nicht erstellt werden. ${describeAiError(error)}`);
+        }
+        finally { if (!unmountSignal.aborted) setIsGeneratingFeedback(false); }
     };
     
     const getStatusText = () => {
         if (!currentSegment && practiceState !== 'idle') return "Übung beendet.";
-        const segmentNumber = Math.floor(segmentIndex / 2) + 1;
-        const segmentLabel = currentSegment?.type === 'Frage' ? `Frage ${segmentNumber}` : `Antwort ${segmentNumber}`;
+        const segmentLabel = currentSegment ? getSegmentLabel(currentSegment, segmentIndex) : '';
 
         switch (practiceState) {
             case 'idle': return 'Klicken Sie auf "Übung starten", um zu beginnen.';
@@ -1156,6 +5678,9 @@ const DialoguePractice = ({ settings, dialogue }: {
                     <div className="dialogue-practice-container">
                         <div className="dialogue-status">
                             <p>{getStatusText()}</p>
+                            {speechFallbackReason && (
+                                <p className="upload-hint">Die Cloud-Stimmen sind nicht verfügbar, es spricht die Sprachausgabe des Browsers. {speechFallbackReason}</p>
+                            )}
                              {practiceState !== 'idle' && practiceState !== 'finished' && (
                                 <button className="btn btn-secondary btn-show-text" onClick={() => setIsTextVisible(prev => !prev)}>
                                     {isTextVisible ? 'Text verbergen' : 'Text anzeigen'}
@@ -1173,10 +5698,10 @@ const DialoguePractice = ({ settings, dialogue }: {
                                 <div className="spinner"></div>
                            ) : (practiceState === 'waiting_for_record' || practiceState === 'recording') ? (
                                 <div className="dialogue-text-container">
-                                    {isTextVisible ? <p className="segment-text">{currentSegment?.text}</p> : <p className="segment-text-hidden">[Text verborgen]</p>}
-                                    <p className="segment-text" style={{ minHeight: '2.5em' }}>
+                                    {isTextVisible ? <p className="segment-text" dir={currentSegment ? getTextDirection(currentSegment.lang) : undefined}>{currentSegment?.text}</p> : <p className="segment-text-hidden">[Text verborgen]</p>}
+                                    <p className="segment-text" dir={getTextDirection(targetLang)} style={{ minHeight: '2.5em' }}>
                                         {dialogueResults[dialogueResults.length-1]?.userInterpretation}
-                                        <em>{currentInterimTranscript}</em>
+                                        <em>{recognizer.interim}</em>
                                     </p>
                                 </div>
                             ) : practiceState === 'finished' ? (
@@ -1189,12 +5714,13 @@ const DialoguePractice = ({ settings, dialogue }: {
                     isProcessingTranscript ? (
                         <div className="loading-overlay" style={{ position: 'relative', background: 'transparent' }}><div className="spinner"></div><p>Transkript wird erstellt...</p></div>
                     ) : (
-                        <StructuredTranscript results={punctuatedResults || []} onUpdateResult={handleUpdateResult} />
+                        <StructuredTranscript results={punctuatedResults || []} recordings={learnerRecorder.recordings} onUpdateResult={handleUpdateResult} onChooseAlternative={handleChooseAlternative} />
                     )
                 )}
                 {activeTab === 'feedback' && (
                      <FeedbackDisplay
                         feedback={feedback}
+                        error={feedbackError}
                         isLoading={isGeneratingFeedback}
                         onGenerate={getFeedbackForDialogue}
                         transcriptProvided={(punctuatedResults || dialogueResults).length > 0}
@@ -1207,6 +5733,7 @@ const DialoguePractice = ({ settings, dialogue }: {
                     <p className="recording-status-text">
                         {practiceState === 'recording' ? `Aufnahme in ${targetLang}...` : "Bereit zur Aufnahme"}
                     </p>
+                    {recognizer.error && <p className="inline-error">{recognizer.error.message}</p>}
                     <button
                         className={`btn-record ${practiceState === 'recording' ? 'recording' : ''}`}
                         onClick={handleRecordToggle}
@@ -1220,9 +5747,10 @@ const DialoguePractice = ({ settings, dialogue }: {
     );
 };
 
-const SightTranslationPractice = ({ settings, originalText: initialText }: {
+const SightTranslationPractice = ({ settings, originalText: initialText, glossary }: {
   settings: Settings;
   originalText: string;
+  glossary: Glossary | null;
 }) => {
   const [activeTab, setActiveTab] = useState<PracticeAreaTab>('original');
   const [originalText, setOriginalText] = useState(initialText);
@@ -1231,83 +5759,105 @@ const SightTranslationPractice = ({ settings, originalText: initialText }: {
   const [isPunctuating, setIsPunctuating] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [feedbackError, setFeedbackError] = useState<string | null>(null);
   const [isGeneratingFeedback, setIsGeneratingFeedback] = useState(false);
-  const recognition = useRef<SpeechRecognition | null>(null);
+  const microphones = useMicrophones();
+  const liveCaption = useLiveCaptionPreference();
+  const learnerRecorder = useLearnerRecorder(microphones.microphoneId);
+  const [recognizedSegments, setRecognizedSegments] = useState<TranscriptSegment[]>([]);
   const [isEditingOriginalText, setIsEditingOriginalText] = useState(false);
   const [isEditingTranscript, setIsEditingTranscript] = useState(false);
 
-  const targetLang = settings.targetLang;
+  const [alignment, setAlignment] = useState<AlignedPair[] | null>(null);
+  const [isAligning, setIsAligning] = useState(false);
+  const [alignmentError, setAlignmentError] = useState<string | null>(null);
+  const unmountSignal = useUnmountSignal();
 
-  const isRecordingRef = useRef(isRecording);
-  useEffect(() => { isRecordingRef.current = isRecording; }, [isRecording]);
+  const targetLang = settings.targetLang;
 
-  useEffect(() => {
-    const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (SpeechRecognitionAPI) {
-        const rec = new SpeechRecognitionAPI();
-        rec.continuous = true;
-        rec.interimResults = true;
-        rec.lang = LANG_MAP[targetLang];
-
-        rec.onresult = (event: SpeechRecognitionEvent) => {
-            let finalTranscript = '';
-            for (let i = event.resultIndex; i < event.results.length; ++i) {
-                if (event.results[i].isFinal) {
-                    finalTranscript += event.results[i][0].transcript;
-                }
-            }
-            setRawTranscript(prev => prev + finalTranscript);
-        };
-        rec.onerror = (event: SpeechRecognitionErrorEvent) => {
-            console.error("Speech recognition error", event.error, event.message);
-            setIsRecording(false);
-        };
-        rec.onend = () => {
-             if (isRecordingRef.current) {
-                 rec.start();
-             }
-        };
-        recognition.current = rec;
-        return () => {
-          isRecordingRef.current = false;
-          recognition.current?.stop();
-        }
-    } else {
-        console.warn("Speech Recognition API not supported in this browser.");
-    }
-  }, [targetLang]);
+  const recognizer = useSpeechRecognition(settings.recognitionBackend, {
+    onUpdate: ({ final, segments }) => {
+        setRawTranscript(prev => prev + final);
+        if (segments.length > 0) setRecognizedSegments(prev => [...prev, ...segments]);
+    },
+    onSessionEnd: () => {
+        if (isRecording) stopRecording();
+    },
+  }, microphones.microphoneId);
 
   const handleTabChange = async (tab: PracticeAreaTab) => {
     setActiveTab(tab);
     if (tab === 'transcript' && rawTranscript && displayTranscript === null && !isPunctuating) {
         setIsPunctuating(true);
         try {
-            const result = await punctuateTextWithAI(rawTranscript, targetLang);
+            const result = await punctuateTextWithAI(rawTranscript, targetLang, unmountSignal);
             setDisplayTranscript(result);
         } catch (e) {
+            if (isCancellation(e)) return;
             console.error("Punctuation failed:", e);
             setDisplayTranscript(rawTranscript); // Fallback to raw transcript on error
         } finally {
-            setIsPunctuating(false);
+            if (!unmountSignal.aborted) setIsPunctuating(false);
         }
     }
   };
 
-  const handleRecord = () => {
-    if (isRecording) {
-      isRecordingRef.current = false;
-      recognition.current?.stop();
-      setIsRecording(false);
+  const stopRecording = () => {
+    recognizer.stop();
+    learnerRecorder.stop();
+    setIsRecording(false);
+  };
+
+  // An uploaded recording is recognized instead of the microphone and kept as the learner recording.
+  const startRecording = (upload?: File) => {
+    setRawTranscript('');
+    setDisplayTranscript(null);
+    setFeedback(null);
+    setAlignment(null);
+    setAlignmentError(null);
+    setRecognizedSegments([]);
+    learnerRecorder.clear();
+    if (upload) {
+        learnerRecorder.attach(0, upload);
+        recognizer.start(targetLang, createRecordingRecognitionBackend(upload, settings.recognitionBackend));
     } else {
-      setRawTranscript('');
-      setDisplayTranscript(null);
-      setFeedback(null);
-      isRecordingRef.current = true;
-      recognition.current?.start();
-      setIsRecording(true);
+        learnerRecorder.start(0);
+        recognizer.start(targetLang);
+        setIsRecording(true);
+    }
+  };
+
+  const handleAlign = async () => {
+    const interpretation = displayTranscript ?? rawTranscript;
+    if (!interpretation) return;
+    setIsAligning(true);
+    setAlignmentError(null);
+    try {
+        setAlignment(await alignInterpretation(originalText, interpretation, settings.sourceLang, targetLang, unmountSignal));
+    } catch (error) {
+        if (isCancellation(error)) return;
+        console.error("Aligning the interpretation failed:", error);
+        setAlignmentError(`Der Abgleich konnte nicht erstellt werden. ${describeAiError(error)}`);
+    } finally {
+        if (!unmountSignal.aborted) setIsAligning(false);
     }
   };
+
+  const handleRecord = () => {
+    if (isRecording) stopRecording();
+    else startRecording();
+  };
   
+  const handleChooseAlternative = (index: number, text: string) => {
+    const updated = recognizedSegments.map((segment, i) => i === index ? chooseSegmentAlternative(segment, text) : segment);
+    setRecognizedSegments(updated);
+    setRawTranscript(joinTranscriptSegments(updated));
+    if (displayTranscript === null) return true;
+    const punctuated = replaceRecognizedText(displayTranscript, recognizedSegments[index].text, text);
+    if (punctuated !== null) setDisplayTranscript(punctuated);
+    return punctuated !== null;
+  };
+
   const handleEditOriginalTextToggle = () => {
     setIsEditingOriginalText(prev => !prev);
   };
@@ -1320,12 +5870,15 @@ const SightTranslationPractice = ({ settings, originalText: initialText }: {
       const transcriptForFeedback = displayTranscript ?? rawTranscript;
       if (!transcriptForFeedback) return;
       
+      const deliveryMetrics = measureDelivery([{ segments: recognizedSegments, lang: targetLang }]);
+
       setIsGeneratingFeedback(true);
       setFeedback(null);
+      setFeedbackError(null);
       setActiveTab('feedback');
 
       const prompt = `
-        Kontext: Eine Stegreifübersetzungs-Übung von ${settings.sourceLang} nach ${targetLang}.
+        Kontext: Eine Stegreifübersetzungs-Übung von ${getPromptLanguageName(settings.sourceLang)} nach ${getPromptLanguageName(targetLang)}.
 
         Originaltext:
         """
@@ -1336,7 +5889,7 @@ const SightTranslationPractice = ({ settings, originalText: initialText }: {
         """
         ${transcriptForFeedback}
         """
-
+${buildUncertaintyPrompt(describeUncertainSegments(recognizedSegments))}
         Aufgabe:
         Analysiere die Verdolmetschungsleistung. Gib dein Feedback in zwei Hauptkategorien: "Inhaltliche Richtigkeit" und "Sprachliche Richtigkeit".
 
@@ -1351,7 +5904,7 @@ const SightTranslationPractice = ({ settings, originalText: initialText }: {
         3. Fehleranalyse:
            - Identifiziere bis zu 5 signifikante Fehler. Klassifiziere jeden als "Inhalt" oder "Sprache".
            - Gib für jeden Fehler den originalen Teil, die Interpretation des Nutzers, einen Korrekturvorschlag und eine kurze Erklärung an.
-        
+        ${buildTerminologyCheckPrompt(glossary)}${buildDeliveryPrompt(deliveryMetrics)}
         Gib deine Antwort NUR als JSON-Objekt im folgenden Format aus:
         {
           "contentRating": number, "languageRating": number, "contentSummary": "string", "languageSummary": "string",
@@ -1359,19 +5912,13 @@ const SightTranslationPractice = ({ settings, originalText: initialText }: {
         }
       `;
       try {
-          const feedbackText = await generateContentWithRetry(prompt);
-          const jsonStart = feedbackText.indexOf('{');
-          const jsonEnd = feedbackText.lastIndexOf('}');
-          if (jsonStart === -1 || jsonEnd === -1) {
-              throw new Error("AI response does not contain a JSON object.");
-          }
-          const jsonString = feedbackText.substring(jsonStart, jsonEnd + 1);
-          const feedbackJson = JSON.parse(jsonString);
-          setFeedback(feedbackJson);
+          setFeedback(await generateStructuredContent(prompt, 'feedback', 'object', value => validateFeedback(value, hasGlossaryEntries(glossary), deliveryMetrics), unmountSignal));
       } catch (error) {
+          if (isCancellation(error)) return;
           console.error("Error getting feedback for sight translation:", error);
+          setFeedbackError(`Das Feedback konnte nicht erstellt werden. ${describeAiError(error)}`);
       } finally {
-          setIsGeneratingFeedback(false);
+          if (!unmountSignal.aborted) setIsGeneratingFeedback(false);
       }
   };
 
@@ -1397,6 +5944,7 @@ const SightTranslationPractice = ({ settings, originalText: initialText }: {
             <div className="text-area">
                 <textarea
                     className={`text-area-editor ${isEditingOriginalText ? 'is-editing' : ''}`}
+                    dir={getTextDirection(settings.sourceLang)}
                     value={originalText}
                     onChange={(e) => setOriginalText(e.target.value)}
                     readOnly={!isEditingOriginalText}
@@ -1413,6 +5961,7 @@ const SightTranslationPractice = ({ settings, originalText: initialText }: {
             ) : (
                  <>
                     <div className="controls-bar">
+                        {learnerRecorder.recordings[0] && <LearnerRecordingPlayer recording={learnerRecorder.recordings[0]} fileName="stegreifuebersetzung" />}
                         <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '1rem' }}>
                             <span className="char-counter">{(displayTranscript ?? '').length} Zeichen</span>
                             <button className="btn btn-secondary" onClick={handleEditTranscriptToggle}>
@@ -1420,32 +5969,304 @@ const SightTranslationPractice = ({ settings, originalText: initialText }: {
                             </button>
                         </div>
                     </div>
+                    <RecognitionReview segments={recognizedSegments} lang={targetLang} onChoose={handleChooseAlternative} />
                     <div className="text-area">
                        <textarea 
                             className={`text-area-editor ${isEditingTranscript ? 'is-editing' : ''}`}
+                            dir={getTextDirection(targetLang)}
                             value={displayTranscript ?? ''} 
                             onChange={(e) => setDisplayTranscript(e.target.value)} 
                             readOnly={!isEditingTranscript}
                             placeholder="Hier erscheint Ihre Verdolmetschung nach der Aufnahme..." 
                         />
                     </div>
+                    <SentenceAlignment
+                        pairs={alignment}
+                        isLoading={isAligning}
+                        error={alignmentError}
+                        onAlign={handleAlign}
+                        canAlign={!isRecording && !!(displayTranscript ?? rawTranscript)}
+                        sourceLang={settings.sourceLang}
+                        targetLang={targetLang}
+                    />
                  </>
             )
         )}
         {activeTab === 'feedback' && (
-             <FeedbackDisplay feedback={feedback} isLoading={isGeneratingFeedback} onGenerate={getFeedback} transcriptProvided={!!(displayTranscript ?? rawTranscript)} />
+             <FeedbackDisplay feedback={feedback} error={feedbackError} isLoading={isGeneratingFeedback} onGenerate={getFeedback} transcriptProvided={!!(displayTranscript ?? rawTranscript)} />
         )}
       </div>
+      {isRecording && liveCaption.isVisible && <LiveCaption text={rawTranscript} interim={recognizer.interim} lang={targetLang} />}
       <div className="practice-footer">
-          <p className="recording-status-text">{isRecording ? `Aufnahme in ${targetLang}...` : "Bereit zur Aufnahme"}</p>
-          <button className={`btn-record ${isRecording ? 'recording' : ''}`} onClick={handleRecord}>
+          <p className="recording-status-text">{isRecording ? `Aufnahme in ${targetLang}...` : recognizer.isListening ? "Ihre Verdolmetschung wird erkannt..." : "Bereit zur Aufnahme"}</p>
+          {recognizer.error && <p className="inline-error">{recognizer.error.message}</p>}
+          <button className={`btn-record ${isRecording ? 'recording' : ''}`} onClick={handleRecord} disabled={!isRecording && recognizer.isListening}>
             <div className="mic-icon"></div>
           </button>
+          <RecordingUploadButton onUpload={startRecording} disabled={isRecording || recognizer.isListening} />
+          <div className="recording-tools">
+              <MicrophoneControls microphones={microphones} isRecording={isRecording} backendId={settings.recognitionBackend} />
+              <button className="btn btn-secondary" onClick={liveCaption.toggle}>
+                  {liveCaption.isVisible ? 'Live-Untertitel ausblenden' : 'Live-Untertitel einblenden'}
+              </button>
+          </div>
       </div>
     </div>
   );
 };
 
+/** Scrubbable position in the speech with the segment borders and a skip back by one sentence. */
+const SpeechTimeline = ({ currentTime, duration, isEstimated, hasSentences, segments, playbackRate, onSeek, onSkipBack }: {
+    currentTime: number;
+    duration: number;
+    isEstimated: boolean;
+    hasSentences: boolean;
+    segments: PlaybackSegment[];
+    playbackRate: number;
+    onSeek: (seconds: number) => void;
+    onSkipBack: () => void;
+}) => (
+    <div className="speech-timeline">
+        <button className="btn btn-secondary" onClick={onSkipBack} title={hasSentences ? 'Zum Anfang des Satzes bzw. des vorherigen Satzes' : undefined}>
+            {hasSentences ? '« Satz zurück' : `« ${RECORDING_SKIP_SECONDS} s zurück`}
+        </button>
+        <div className="timeline-track">
+            <input
+                type="range"
+                className="form-range"
+                aria-label="Position in der Rede"
+                min="0"
+                max={duration}
+                step="0.1"
+                value={Math.min(currentTime, duration)}
+                onChange={e => onSeek(parseFloat(e.target.value))}
+            />
+            {segments.slice(1).map(segment => (
+                <span key={segment.start} className="timeline-marker" style={{ left: `${segment.start / duration * 100}%` }} />
+            ))}
+        </div>
+        <span className="char-counter" title={isEstimated ? 'Geschätzt aus dem Sprechtempo der Sprache' : undefined}>
+            {isEstimated && '≈ '}{formatDuration(currentTime / playbackRate)} / {formatDuration(duration / playbackRate)}
+        </span>
+    </div>
+);
+
+/** The learner's recording with a download link and, when the source audio is known, the dual-track playback. */
+const LearnerRecordingPlayer = ({ recording, fileName, sourceUrl, playbackRate = 1 }: {
+    recording: LearnerRecording;
+    fileName: string;
+    sourceUrl?: string | null;
+    playbackRate?: number;
+}) => {
+    const stopDualTrackRef = useRef<(() => void) | null>(null);
+    const [isDualTrackPlaying, setIsDualTrackPlaying] = useState(false);
+    const [dualTrackError, setDualTrackError] = useState<string | null>(null);
+
+    useEffect(() => () => stopDualTrackRef.current?.(), []);
+
+    const handleDualTrack = async () => {
+        if (stopDualTrackRef.current) {
+            stopDualTrackRef.current();
+            stopDualTrackRef.current = null;
+            setIsDualTrackPlaying(false);
+            return;
+        }
+        if (!sourceUrl) return;
+        setDualTrackError(null);
+        setIsDualTrackPlaying(true);
+        try {
+            stopDualTrackRef.current = await startDualTrackPlayback(sourceUrl, recording, playbackRate, () => {
+                stopDualTrackRef.current = null;
+                setIsDualTrackPlaying(false);
+            });
+        } catch (error) {
+            console.error("Dual-track playback failed:", error);
+            setDualTrackError('Die zweikanalige Wiedergabe ist nicht möglich.');
+            setIsDualTrackPlaying(false);
+        }
+    };
+
+    return (
+        <div className="learner-recording">
+            <audio controls src={recording.url} />
+            <a className="btn btn-secondary" href={recording.url} download={getRecordingFileName(recording, fileName)}>Herunterladen</a>
+            {sourceUrl && recording.sourceTime !== null && (
+                <button className="btn btn-secondary" onClick={handleDualTrack} title="Original im linken, Verdolmetschung im rechten Kanal">
+                    {isDualTrackPlaying ? 'Zweikanal-Wiedergabe stoppen' : 'Zweikanalig anhören'}
+                </button>
+            )}
+            {dualTrackError && <span className="inline-error">{dualTrackError}</span>}
+        </div>
+    );
+};
+
+const formatSeconds = (seconds: number) => `${seconds.toLocaleString('de-DE', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} s`;
+
+/** Average and maximum lag, the lag over time and the passages where the learner fell too far behind. */
+const EarVoiceSpanDisplay = ({ report, playbackRate }: { report: EarVoiceSpanReport; playbackRate: number }) => {
+    const width = 600;
+    const height = 160;
+    const padding = 28;
+    const maxTime = Math.max(1, ...report.points.map(point => point.time));
+    const maxLag = Math.max(report.maximum, report.limit) * 1.1;
+    const x = (time: number) => padding + (width - 2 * padding) * time / maxTime;
+    const y = (lag: number) => height - padding - (height - 2 * padding) * lag / maxLag;
+
+    return (
+        <div className="ear-voice-span">
+            <h4>Décalage (Ear-Voice-Span)</h4>
+            <p>Durchschnitt: <strong>{formatSeconds(report.average)}</strong> · Maximum: <strong>{formatSeconds(report.maximum)}</strong></p>
+            <svg className="ear-voice-span-chart" viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Décalage im Verlauf der Rede">
+                <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} className="chart-axis" />
+                <line x1={padding} y1={padding} x2={padding} y2={height - padding} className="chart-axis" />
+                <line x1={padding} y1={y(report.limit)} x2={width - padding} y2={y(report.limit)} className="chart-limit" />
+                <polyline points={report.points.map(point => `${x(point.time)},${y(point.lag)}`).join(' ')} className="chart-line" />
+                <text x={padding - 4} y={y(report.limit)} className="chart-label" textAnchor="end" dominantBaseline="middle">{report.limit} s</text>
+                <text x={width - padding} y={height - 8} className="chart-label" textAnchor="end">{formatDuration(maxTime)} min</text>
+            </svg>
+            {report.passages.length > 0 ? (
+                <>
+                    <p>Hier lagen Sie mehr als {report.limit} s zurück:</p>
+                    <ul className="ear-voice-span-passages">
+                        {report.passages.map(passage => (
+                            <li key={passage.start}>
+                                <span className="char-counter">{formatDuration(passage.start / playbackRate)} · {passage.lag === null ? 'nicht erreicht' : formatSeconds(passage.lag)}</span> {passage.text}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            ) : (
+                <p>Sie lagen nie mehr als {report.limit} s zurück.</p>
+            )}
+            <p className="upload-hint">Geschätzt aus dem Fortschritt in Wörtern; die Verzögerung der Spracherkennung ist enthalten.</p>
+        </div>
+    );
+};
+
+/**
+ * The transcript as the recognizer heard it. Uncertain passages are marked;
+ * passages with alternatives open a choice. `onChoose` reports whether the
+ * choice could be applied to the (possibly punctuated and edited) transcript.
+ */
+const RecognitionReview = ({ segments, lang, onChoose }: { segments: TranscriptSegment[]; lang: Language; onChoose: (index: number, text: string) => boolean }) => {
+    const [openIndex, setOpenIndex] = useState<number | null>(null);
+    const [notApplied, setNotApplied] = useState(false);
+    const uncertainCount = segments.filter(isUncertainSegment).length;
+    if (uncertainCount === 0 && !segments.some(segment => segment.alternatives.length > 0)) return null;
+
+    const handleChoose = (index: number, text: string) => {
+        setOpenIndex(null);
+        if (text !== segments[index].text.trim()) setNotApplied(!onChoose(index, text));
+    };
+
+    return (
+        <div className="recognition-review">
+            <p className="upload-hint">
+                {uncertainCount > 0 ? `Bei ${uncertainCount} markierten ${uncertainCount === 1 ? 'Stelle' : 'Stellen'} war sich die Spracherkennung unsicher; sie werden beim Feedback berücksichtigt. ` : ''}
+                Unterstrichene Stellen haben andere mögliche Erkennungen; klicken Sie darauf, um eine zu wählen.
+            </p>
+            <p className="recognized-text" dir={getTextDirection(lang)}>
+                {segments.map((segment, index) => {
+                    const title = [
+                        segment.confidence !== null ? `Sicherheit ${Math.round(segment.confidence * 100)} %` : null,
+                        segment.end > 0 ? formatDuration(segment.start) : null,
+                    ].filter(Boolean).join(' · ');
+                    if (openIndex === index) {
+                        return (
+                            <React.Fragment key={index}>
+                                {' '}
+                                <select className="recognition-alternatives" value={segment.text.trim()} autoFocus onChange={e => handleChoose(index, e.target.value)} onBlur={() => setOpenIndex(null)}>
+                                    {[segment.text.trim(), ...segment.alternatives].map(option => <option key={option} value={option}>{option}</option>)}
+                                </select>
+                            </React.Fragment>
+                        );
+                    }
+                    const hasAlternatives = segment.alternatives.length > 0;
+                    return (
+                        <span
+                            key={index}
+                            className={`recognized-segment${isUncertainSegment(segment) ? ' is-uncertain' : ''}${hasAlternatives ? ' has-alternatives' : ''}`}
+                            title={title || undefined}
+                            onClick={hasAlternatives ? () => setOpenIndex(index) : undefined}
+                        >{segment.text}</span>
+                    );
+                })}
+            </p>
+            {notApplied && <p className="inline-error">Die Stelle wurde im Transkript bereits geändert. Bitte passen Sie sie über „Bearbeiten“ an.</p>}
+        </div>
+    );
+};
+
+/** Each sentence of the original next to its rendition, colour-coded; a click on a pair shows why it was classified so. */
+const SentenceAlignment = ({ pairs, isLoading, error, onAlign, canAlign, sourceLang, targetLang }: {
+    pairs: AlignedPair[] | null;
+    isLoading: boolean;
+    error: string | null;
+    onAlign: () => void;
+    canAlign: boolean;
+    sourceLang: Language;
+    targetLang: Language;
+}) => {
+    const [selected, setSelected] = useState<number | null>(null);
+    useEffect(() => { setSelected(null); }, [pairs]);
+    const toggleExplanation = (i: number) => setSelected(selected === i ? null : i);
+
+    return (
+        <div className="sentence-alignment">
+            <div className="sentence-alignment-header">
+                <h4>Satzweiser Abgleich</h4>
+                {pairs && (
+                    <span className="alignment-legend">
+                        {(Object.keys(ALIGNMENT_STATUS_CLASSES) as AlignmentStatus[]).map(status => (
+                            <span key={status} className={`alignment-status ${ALIGNMENT_STATUS_CLASSES[status]}`}>
+                                {status}: {pairs.filter(pair => pair.status === status).length}
+                            </span>
+                        ))}
+                    </span>
+                )}
+                <button className="btn btn-secondary" onClick={onAlign} disabled={!canAlign || isLoading}>
+                    {isLoading ? 'Wird abgeglichen...' : pairs ? 'Erneut abgleichen' : 'Mit dem Original abgleichen'}
+                </button>
+            </div>
+            {error && <p className="inline-error">{error}</p>}
+            {pairs && (
+                <div className="alignment-pairs">
+                    {pairs.map((pair, i) => (
+                        // A div with a button role, since a <button> may not contain the paragraphs.
+                        <div
+                            key={i}
+                            className={`alignment-pair ${ALIGNMENT_STATUS_CLASSES[pair.status]} ${selected === i ? 'is-selected' : ''}`}
+                            role="button"
+                            tabIndex={0}
+                            aria-expanded={selected === i}
+                            onClick={() => toggleExplanation(i)}
+                            onKeyDown={event => {
+                                if (event.key !== 'Enter' && event.key !== ' ') return;
+                                event.preventDefault();
+                                toggleExplanation(i);
+                            }}
+                            title="Für eine Erklärung anklicken"
+                        >
+                            <p dir={getTextDirection(sourceLang)}>
+                                {pair.sentence !== null && <span className="alignment-number">{pair.sentence}</span>}
+                                {pair.original || <em>nicht im Original</em>}
+                            </p>
+                            <p dir={getTextDirection(targetLang)}>
+                                {pair.interpretation || <em>{pair.status === 'Auslassung' ? 'nicht verdolmetscht' : 'zusammengefasst, siehe Erklärung'}</em>}
+                            </p>
+                            {selected === i && (
+                                <p className="alignment-explanation">
+                                    <strong>{pair.status}:</strong> {pair.explanation || (pair.status === 'korrekt' ? 'Der Satz wurde vollständig und richtig wiedergegeben.' : 'Keine Erklärung angegeben.')}
+                                </p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 const StarRating = ({ score, maxScore = 10 }: { score: number, maxScore?: number }) => (
     <span className="star-rating">
       {[...Array(maxScore)].map((_, i) => (
@@ -1454,8 +6275,9 @@ const StarRating = ({ score, maxScore = 10 }: { score: number, maxScore?: number
     </span>
 );
 
-const FeedbackDisplay = ({ feedback, isLoading, onGenerate, transcriptProvided }: {
+const FeedbackDisplay = ({ feedback, error, isLoading, onGenerate, transcriptProvided }: {
   feedback: Feedback | null;
+  error: string | null;
   isLoading: boolean;
   onGenerate: () => void;
   transcriptProvided: boolean;
@@ -1473,9 +6295,10 @@ const FeedbackDisplay = ({ feedback, isLoading, onGenerate, transcriptProvided }
     return (
       <div className="placeholder" style={{ borderTop: '1px solid var(--border-color)', paddingTop: '1.5rem', marginTop: '1.5rem' }}>
         <h2>Feedback</h2>
+        {error && <p className="error-banner">{error}</p>}
         <p>Nachdem Sie eine Verdolmetschung aufgenommen haben, können Sie hier eine detaillierte KI-Analyse anfordern.</p>
         <button className="btn btn-primary btn-large" onClick={onGenerate} disabled={!transcriptProvided}>
-          Feedback generieren
+          {error ? 'Erneut versuchen' : 'Feedback generieren'}
         </button>
       </div>
     );
@@ -1499,18 +6322,66 @@ const FeedbackDisplay = ({ feedback, isLoading, onGenerate, transcriptProvided }
                 </div>
                 <p className="rating-summary">{feedback.languageSummary}</p>
             </div>
+            {feedback.delivery && (
+                <div className="rating-item">
+                    <div className="rating-header">
+                        <h4>Vortrag</h4>
+                        <span><StarRating score={feedback.delivery.rating} maxScore={10} /> ({feedback.delivery.rating}/10)</span>
+                    </div>
+                    <p className="rating-summary">{feedback.delivery.summary}</p>
+                    <ul className="delivery-metrics">
+                        {describeDeliveryMetrics(feedback.delivery.metrics).map(line => <li key={line}>{line}</li>)}
+                    </ul>
+                    <p className="delivery-note">Die Spracherkennung lässt Füllwörter oft weg; die Zahl ist ein Mindestwert.</p>
+                </div>
+            )}
+            {feedback.terminology && (
+                <div className="rating-item">
+                    <div className="rating-header">
+                        <h4>Terminologie</h4>
+                        <span><StarRating score={feedback.terminology.rating} maxScore={10} /> ({feedback.terminology.rating}/10)</span>
+                    </div>
+                    <p className="rating-summary">{feedback.terminology.summary}</p>
+                </div>
+            )}
         </div>
 
+        {feedback.terminology && (
+            <>
+                <h3>Terminologie</h3>
+                <table className="glossary-table terminology-table">
+                    <thead>
+                        <tr>
+                            <th>Begriff</th>
+                            <th>Vereinbart</th>
+                            <th>Verwendet</th>
+                            <th>Ergebnis</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {feedback.terminology.terms.map((term, index) => (
+                            <tr key={index} title={term.comment || undefined}>
+                                <td dir="auto">{term.source}</td>
+                                <td dir="auto">{term.expected}</td>
+                                <td dir="auto">{term.used || '–'}</td>
+                                <td><span className={`term-status ${term.status.replace(/\s+/g, '-').toLowerCase()}`}>{term.status}</span></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </>
+        )}
+
         <h3>Fehleranalyse</h3>
         <ul className="error-analysis-list">
             {feedback.errorAnalysis.length > 0 ? feedback.errorAnalysis.map((item, index) => (
                 <li key={index}>
                     <p>
                       <span className={`error-type ${item.type.toLowerCase() === 'inhalt' ? 'inhalt' : 'sprache'}`}>{item.type}</span>
-                      <strong>Original:</strong> "{item.original}"
+                      <strong>Original:</strong> "<bdi>{item.original}</bdi>"
                     </p>
-                    <p><strong>Ihre Version:</strong> "{item.interpretation}"</p>
-                    <p><strong>Vorschlag:</strong> "{item.suggestion}"</p>
+                    <p><strong>Ihre Version:</strong> "<bdi>{item.interpretation}</bdi>"</p>
+                    <p><strong>Vorschlag:</strong> "<bdi>{item.suggestion}</bdi>"</p>
                     <p><strong>Erklärung:</strong> {item.explanation}</p>
                 </li>
             )) : <p>Keine spezifischen Fehler gefunden. Gute Arbeit!</p>}
@@ -1522,7 +6393,7 @@ const FeedbackDisplay = ({ feedback, isLoading, onGenerate, transcriptProvided }
   );
 };
 
-const StructuredTranscript = ({ results, onUpdateResult }: { results: StructuredDialogueResult[]; onUpdateResult: (index: number, newText: string) => void; }) => {
+const StructuredTranscript = ({ results, recordings, onUpdateResult, onChooseAlternative }: { results: StructuredDialogueResult[]; recordings: Record<number, LearnerRecording>; onUpdateResult: (index: number, newText: string) => void; onChooseAlternative: (resultIndex: number, index: number, text: string) => boolean; }) => {
     const [editingState, setEditingState] = useState<{ index: number | null; text: string }>({ index: null, text: '' });
 
     if (results.length === 0) {
@@ -1551,8 +6422,7 @@ const StructuredTranscript = ({ results, onUpdateResult }: { results: Structured
     return (
         <div className="structured-transcript text-area">
             {results.map((result, index) => {
-                const segmentNumber = Math.floor(index / 2) + 1;
-                const segmentLabel = result.originalSegment.type === 'Frage' ? `Frage ${segmentNumber}` : `Antwort ${segmentNumber}`;
+                const segmentLabel = getSegmentLabel(result.originalSegment, index);
                 return (
                     <div key={index} className="transcript-segment">
                          <div className="transcript-segment-header">
@@ -1570,20 +6440,25 @@ const StructuredTranscript = ({ results, onUpdateResult }: { results: Structured
                                 </>
                             )}
                         </div>
-                        <p className="transcript-segment-original">{result.originalSegment.text}</p>
+                        <p className="transcript-segment-original" dir={getTextDirection(result.originalSegment.lang)}>{result.originalSegment.text}</p>
+                        {recordings[index] && <LearnerRecordingPlayer recording={recordings[index]} fileName={`verdolmetschung-segment-${index + 1}`} />}
                         <div className="transcript-segment-user">
                             <strong>Ihre Verdolmetschung ({result.interpretationLang}):</strong>
                             {editingState.index === index ? (
                                  <textarea
                                     className="text-area-editor is-editing"
+                                    dir={getTextDirection(result.interpretationLang)}
                                     value={editingState.text}
                                     onChange={handleTextChange}
                                     style={{ width: '100%', minHeight: '80px', marginTop: '0.5rem' }}
                                 />
                             ) : (
-                                 <p style={{whiteSpace: 'pre-wrap', marginTop: '0.5rem'}}>
+                                <>
+                                 <p dir={getTextDirection(result.interpretationLang)} style={{whiteSpace: 'pre-wrap', marginTop: '0.5rem'}}>
                                     {result.userInterpretation || <em>Keine Aufnahme für dieses Segment.</em>}
                                  </p>
+                                 {result.recognition && <RecognitionReview segments={result.recognition} lang={result.interpretationLang} onChoose={(i, text) => onChooseAlternative(index, i, text)} />}
+                                </>
                             )}
                         </div>
                     </div>
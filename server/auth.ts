@@ -0,0 +1,206 @@
+import crypto from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createJsonStore } from './store';
+import { HttpError, getBearerToken, readJsonBody, sendJson } from './http';
+
+// --- TYPES ---
+export interface UserRecord {
+    id: string;
+    name: string;
+    codeHash: string;
+    createdAt: string;
+    expiresAt: string | null;
+    revokedAt: string | null;
+}
+
+interface SessionRecord {
+    tokenHash: string;
+    userId: string;
+    createdAt: string;
+    expiresAt: string;
+}
+
+export interface PublicUser {
+    id: string;
+    name: string;
+    expiresAt: string | null;
+}
+
+// --- CONSTANTS & UTILS ---
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+
+const users = createJsonStore<UserRecord[]>('users', []);
+const sessions = createJsonStore<SessionRecord[]>('sessions', []);
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+const hashSecret = (secret: string): string => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(secret, salt, SCRYPT_KEY_LENGTH).toString('hex');
+    return `scrypt$${salt}$${hash}`;
+};
+
+const verifySecret = (secret: string, stored: string): boolean => {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(secret, salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+};
+
+// Used when the user name is unknown so that a failed lookup costs the same
+// time as a failed code comparison.
+const DUMMY_HASH = hashSecret(crypto.randomBytes(8).toString('hex'));
+
+/** Generates a human-friendly access code such as "K7QF-2M9X". */
+const generateAccessCode = (): string => {
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    const bytes = crypto.randomBytes(8);
+    const chars = Array.from(bytes, b => alphabet[b % alphabet.length]);
+    return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+};
+
+const isExpired = (iso: string | null, now = Date.now()) => iso !== null && Date.parse(iso) <= now;
+
+const getInactiveReason = (user: UserRecord): string | null => {
+    if (user.revokedAt) return 'Der Zugangscode wurde widerrufen.';
+    if (isExpired(user.expiresAt)) return 'Der Zugangscode ist abgelaufen.';
+    return null;
+};
+
+export const toPublicUser = (user: UserRecord): PublicUser => ({
+    id: user.id,
+    name: user.name,
+    expiresAt: user.expiresAt,
+});
+
+// --- ACCOUNT MANAGEMENT ---
+// Used by the account CLI (server/cli.ts). Codes are only ever returned once,
+// at creation or reset time; the store only keeps their hash.
+
+export const listUsers = (): UserRecord[] => users.read();
+
+export const findUser = (name: string): UserRecord | undefined =>
+    users.read().find(u => normalizeName(u.name) === normalizeName(name));
+
+export const createUser = (name: string, expiresAt: string | null): { user: UserRecord; code: string } => {
+    if (!name.trim()) throw new Error('User name must not be empty.');
+    if (findUser(name)) throw new Error(`User "${name}" already exists.`);
+    const code = generateAccessCode();
+    const user: UserRecord = {
+        id: crypto.randomUUID(),
+        name: name.trim(),
+        codeHash: hashSecret(code),
+        createdAt: new Date().toISOString(),
+        expiresAt,
+        revokedAt: null,
+    };
+    users.update(list => [...list, user]);
+    return { user, code };
+};
+
+const updateUser = (name: string, patch: (user: UserRecord) => UserRecord): UserRecord => {
+    const existing = findUser(name);
+    if (!existing) throw new Error(`User "${name}" not found.`);
+    const updated = patch(existing);
+    users.update(list => list.map(u => (u.id === existing.id ? updated : u)));
+    return updated;
+};
+
+/** Issues a new code for an existing user and ends all their sessions. */
+export const resetUserCode = (name: string, expiresAt?: string | null): { user: UserRecord; code: string } => {
+    const code = generateAccessCode();
+    const user = updateUser(name, u => ({
+        ...u,
+        codeHash: hashSecret(code),
+        revokedAt: null,
+        expiresAt: expiresAt === undefined ? u.expiresAt : expiresAt,
+    }));
+    endSessionsForUser(user.id);
+    return { user, code };
+};
+
+export const revokeUser = (name: string): UserRecord => {
+    const user = updateUser(name, u => ({ ...u, revokedAt: new Date().toISOString() }));
+    endSessionsForUser(user.id);
+    return user;
+};
+
+export const setUserExpiry = (name: string, expiresAt: string | null): UserRecord =>
+    updateUser(name, u => ({ ...u, expiresAt }));
+
+// --- SESSIONS ---
+const endSessionsForUser = (userId: string) => {
+    sessions.update(list => list.filter(s => s.userId !== userId));
+};
+
+const createSession = (user: UserRecord): { token: string; expiresAt: string } => {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    // A session never outlives the access code it was created with.
+    const codeExpiry = user.expiresAt ? Date.parse(user.expiresAt) : Infinity;
+    const expiresAt = new Date(Math.min(now + SESSION_TTL_MS, codeExpiry)).toISOString();
+    sessions.update(list => [
+        ...list.filter(s => !isExpired(s.expiresAt, now)),
+        { tokenHash: sha256(token), userId: user.id, createdAt: new Date(now).toISOString(), expiresAt },
+    ]);
+    return { token, expiresAt };
+};
+
+/**
+ * Resolves the user behind the bearer token of a request. Revocation and expiry
+ * are checked on every call, so they take effect for running sessions too.
+ */
+export const authenticate = (req: IncomingMessage): { user: UserRecord; expiresAt: string } => {
+    const token = getBearerToken(req);
+    if (!token) throw new HttpError(401, 'Nicht angemeldet.', 'unauthenticated');
+
+    const tokenHash = sha256(token);
+    const session = sessions.read().find(s => s.tokenHash === tokenHash);
+    if (!session || isExpired(session.expiresAt)) {
+        throw new HttpError(401, 'Die Sitzung ist abgelaufen. Bitte melden Sie sich erneut an.', 'session_expired');
+    }
+    const user = users.read().find(u => u.id === session.userId);
+    if (!user) throw new HttpError(401, 'Nicht angemeldet.', 'unauthenticated');
+    const inactiveReason = getInactiveReason(user);
+    if (inactiveReason) throw new HttpError(401, inactiveReason, 'access_revoked');
+
+    return { user, expiresAt: session.expiresAt };
+};
+
+// --- ROUTES ---
+export const handleLogin = async (req: IncomingMessage, res: ServerResponse) => {
+    const { name, code } = await readJsonBody<{ name?: unknown; code?: unknown }>(req);
+    if (typeof name !== 'string' || typeof code !== 'string' || !name.trim() || !code.trim()) {
+        throw new HttpError(400, 'Bitte Benutzername und Zugangscode angeben.');
+    }
+
+    const user = findUser(name);
+    const normalizedCode = code.trim().toUpperCase();
+    const isValid = verifySecret(normalizedCode, user?.codeHash ?? DUMMY_HASH);
+    if (!user || !isValid) {
+        throw new HttpError(401, 'Ungültiger Benutzername oder Zugangscode.', 'invalid_credentials');
+    }
+    const inactiveReason = getInactiveReason(user);
+    if (inactiveReason) throw new HttpError(403, inactiveReason, 'access_revoked');
+
+    const session = createSession(user);
+    sendJson(res, 200, { token: session.token, expiresAt: session.expiresAt, user: toPublicUser(user) });
+};
+
+export const handleSession = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user, expiresAt } = authenticate(req);
+    sendJson(res, 200, { expiresAt, user: toPublicUser(user) });
+};
+
+export const handleLogout = async (req: IncomingMessage, res: ServerResponse) => {
+    const token = getBearerToken(req);
+    if (token) {
+        const tokenHash = sha256(token);
+        sessions.update(list => list.filter(s => s.tokenHash !== tokenHash));
+    }
+    sendJson(res, 200, { ok: true });
+};
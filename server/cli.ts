@@ -0,0 +1,81 @@
+import { createUser, listUsers, resetUserCode, revokeUser, setUserExpiry } from './auth';
+
+// --- ACCOUNT CLI ---
+// Usage: npm run users -- <command> [args]
+//
+//   list                               Show all accounts and their status
+//   add <name> [--expires YYYY-MM-DD]  Create an account and print its access code
+//   reset <name> [--expires YYYY-MM-DD] Issue a new access code (ends all sessions)
+//   expire <name> <YYYY-MM-DD|never>   Change the expiry date of an access code
+//   revoke <name>                      Revoke access immediately
+
+const USAGE = `Usage: npm run users -- <list|add|reset|expire|revoke> [name] [--expires YYYY-MM-DD]`;
+
+const parseExpiry = (value: string | undefined): string | null => {
+    if (!value || value === 'never') return null;
+    const date = new Date(`${value}T23:59:59`);
+    if (Number.isNaN(date.getTime())) {
+        throw new Error(`Invalid date "${value}". Expected YYYY-MM-DD.`);
+    }
+    return date.toISOString();
+};
+
+const getFlag = (args: string[], flag: string): string | undefined => {
+    const index = args.indexOf(flag);
+    return index === -1 ? undefined : args[index + 1];
+};
+
+const describeStatus = (revokedAt: string | null, expiresAt: string | null) => {
+    if (revokedAt) return `widerrufen am ${revokedAt.slice(0, 10)}`;
+    if (expiresAt && Date.parse(expiresAt) <= Date.now()) return `abgelaufen am ${expiresAt.slice(0, 10)}`;
+    return expiresAt ? `aktiv bis ${expiresAt.slice(0, 10)}` : 'aktiv';
+};
+
+const run = (args: string[]) => {
+    const [command, name] = args;
+    switch (command) {
+        case 'list': {
+            const users = listUsers();
+            if (users.length === 0) {
+                console.log('Keine Benutzer angelegt.');
+                return;
+            }
+            users.forEach(u => console.log(`${u.name.padEnd(30)} ${describeStatus(u.revokedAt, u.expiresAt)}`));
+            return;
+        }
+        case 'add': {
+            if (!name) throw new Error(USAGE);
+            const { user, code } = createUser(name, parseExpiry(getFlag(args, '--expires')));
+            console.log(`Benutzer "${user.name}" angelegt. Zugangscode: ${code}`);
+            return;
+        }
+        case 'reset': {
+            if (!name) throw new Error(USAGE);
+            const expiresFlag = getFlag(args, '--expires');
+            const { user, code } = resetUserCode(name, expiresFlag === undefined ? undefined : parseExpiry(expiresFlag));
+            console.log(`Neuer Zugangscode für "${user.name}": ${code}`);
+            return;
+        }
+        case 'expire': {
+            if (!name || !args[2]) throw new Error(USAGE);
+            const user = setUserExpiry(name, parseExpiry(args[2]));
+            console.log(`"${user.name}": ${describeStatus(user.revokedAt, user.expiresAt)}`);
+            return;
+        }
+        case 'revoke': {
+            if (!name) throw new Error(USAGE);
+            const user = revokeUser(name);
+            console.log(`Zugang für "${user.name}" widerrufen.`);
+            return;
+        }
+        default:
+            throw new Error(USAGE);
+    }
+};
+
+try {
+    run(process.argv.slice(2));
+} catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+}
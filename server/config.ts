@@ -0,0 +1,110 @@
+// --- SERVER CONFIG ---
+// Secrets and limits of the backend. Values come from the environment that
+// vite.config.ts loads (including .env), and never reach the client bundle.
+
+export interface QuotaConfig {
+    aiRequestsPerDay: number;
+    ttsCharactersPerDay: number;
+    sttSecondsPerDay: number;
+}
+
+export type ProviderName = 'gemini' | 'openai' | 'ollama' | 'fixture';
+
+/** Which provider and model answer a prompt, written as "provider:model" in the env. */
+export interface ModelRoute {
+    provider: ProviderName;
+    model: string;
+}
+
+export const AI_TASKS = ['generation', 'dialogue', 'lengthAdjustment', 'punctuation', 'feedback', 'glossary', 'transcription', 'alignment'] as const;
+export type AiTask = typeof AI_TASKS[number];
+
+export interface LlmConfig {
+    defaultRoute: ModelRoute;
+    taskRoutes: Partial<Record<AiTask, ModelRoute>>;
+    openAiBaseUrl: string;
+    openAiApiKey: string;
+    ollamaBaseUrl: string;
+    fixtureDir: string | null;
+}
+
+/** A Whisper-compatible server that transcribes the learner's interpretation instead of the browser. */
+export interface SttConfig {
+    whisperBaseUrl: string | null;
+    whisperModel: string;
+    whisperApiKey: string;
+}
+
+export interface ServerConfig {
+    apiKey: string;
+    ttsApiKey: string;
+    quotas: QuotaConfig;
+    llm: LlmConfig;
+    stt: SttConfig;
+}
+
+const DEFAULT_QUOTAS: QuotaConfig = {
+    aiRequestsPerDay: 200,
+    ttsCharactersPerDay: 150_000,
+    sttSecondsPerDay: 4 * 60 * 60,
+};
+
+const parseLimit = (value: string | undefined, fallback: number) => {
+    const parsed = value === undefined ? NaN : Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const PROVIDERS: ProviderName[] = ['gemini', 'openai', 'ollama', 'fixture'];
+
+const DEFAULT_ROUTE: ModelRoute = { provider: 'gemini', model: 'gemini-2.5-flash' };
+
+export const parseModelRoute = (value: string): ModelRoute => {
+    const separator = value.indexOf(':');
+    const provider = (separator === -1 ? value : value.slice(0, separator)) as ProviderName;
+    const model = separator === -1 ? '' : value.slice(separator + 1);
+    if (!PROVIDERS.includes(provider)) {
+        throw new Error(`Unknown LLM provider "${provider}" in "${value}". Expected one of ${PROVIDERS.join(', ')}.`);
+    }
+    if (!model && provider !== 'fixture') {
+        throw new Error(`LLM route "${value}" is missing a model name (expected "provider:model").`);
+    }
+    return { provider, model };
+};
+
+const toEnvSuffix = (task: AiTask) => task.replace(/[A-Z]/g, c => `_${c}`).toUpperCase();
+
+let config: ServerConfig | null = null;
+
+export const loadServerConfig = (env: Record<string, string | undefined>) => {
+    config = {
+        apiKey: env.API_KEY || '',
+        // Text-to-Speech may use a separate key restricted to that API.
+        ttsApiKey: env.TTS_API_KEY || env.API_KEY || '',
+        quotas: {
+            aiRequestsPerDay: parseLimit(env.QUOTA_AI_REQUESTS_PER_DAY, DEFAULT_QUOTAS.aiRequestsPerDay),
+            ttsCharactersPerDay: parseLimit(env.QUOTA_TTS_CHARACTERS_PER_DAY, DEFAULT_QUOTAS.ttsCharactersPerDay),
+            sttSecondsPerDay: parseLimit(env.QUOTA_STT_SECONDS_PER_DAY, DEFAULT_QUOTAS.sttSecondsPerDay),
+        },
+        llm: {
+            defaultRoute: env.LLM_MODEL ? parseModelRoute(env.LLM_MODEL) : DEFAULT_ROUTE,
+            // e.g. LLM_MODEL_PUNCTUATION=gemini:gemini-2.5-flash-lite, LLM_MODEL_LENGTH_ADJUSTMENT=...
+            taskRoutes: Object.fromEntries(AI_TASKS
+                .filter(task => env[`LLM_MODEL_${toEnvSuffix(task)}`])
+                .map(task => [task, parseModelRoute(env[`LLM_MODEL_${toEnvSuffix(task)}`]!)])),
+            openAiBaseUrl: (env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, ''),
+            openAiApiKey: env.OPENAI_API_KEY || '',
+            ollamaBaseUrl: (env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/$/, ''),
+            fixtureDir: env.LLM_FIXTURE_DIR || null,
+        },
+        stt: {
+            whisperBaseUrl: env.WHISPER_BASE_URL ? env.WHISPER_BASE_URL.replace(/\/$/, '') : null,
+            whisperModel: env.WHISPER_MODEL || 'whisper-1',
+            whisperApiKey: env.WHISPER_API_KEY || '',
+        },
+    };
+};
+
+export const getServerConfig = (): ServerConfig => {
+    if (!config) loadServerConfig(process.env);
+    return config!;
+};
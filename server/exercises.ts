@@ -0,0 +1,58 @@
+import crypto from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { authenticate } from './auth';
+import { HttpError, readJsonBody, sendJson } from './http';
+import { createJsonStore } from './store';
+
+// --- EXERCISE LOG ---
+// Every generated exercise is stored together with the settings it was created
+// with, including the difficulty profile. Instructors can look up the exact
+// level of an exercise and load its settings again for a new one.
+
+interface ExerciseRecord {
+    id: string;
+    userId: string;
+    createdAt: string;
+    settings: Record<string, unknown>;
+    text: string;
+    dialogue: unknown[];
+}
+
+const MAX_EXERCISES_PER_USER = 100;
+
+const exercises = createJsonStore<ExerciseRecord[]>('exercises', []);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const handleSaveExercise = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user } = authenticate(req);
+    const { settings, text = '', dialogue = [] } = await readJsonBody<{ settings?: unknown; text?: unknown; dialogue?: unknown }>(req);
+    if (!isRecord(settings) || !isRecord(settings.difficulty)) throw new HttpError(400, 'settings with a difficulty profile are required.');
+    if (typeof text !== 'string' || !Array.isArray(dialogue)) throw new HttpError(400, 'text must be a string and dialogue an array.');
+
+    const record: ExerciseRecord = {
+        id: crypto.randomUUID(),
+        userId: user.id,
+        createdAt: new Date().toISOString(),
+        settings,
+        text,
+        dialogue,
+    };
+    exercises.update(list => {
+        const own = list.filter(e => e.userId === user.id);
+        const dropped = new Set(own.slice(0, Math.max(0, own.length + 1 - MAX_EXERCISES_PER_USER)).map(e => e.id));
+        return [...list.filter(e => !dropped.has(e.id)), record];
+    });
+    sendJson(res, 201, { id: record.id, createdAt: record.createdAt });
+};
+
+/** Lists the user's exercises, newest first. */
+export const handleListExercises = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user } = authenticate(req);
+    const own = exercises.read()
+        .filter(e => e.userId === user.id)
+        .reverse()
+        .map(({ userId: _userId, ...exercise }) => exercise);
+    sendJson(res, 200, { exercises: own });
+};
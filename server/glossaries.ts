@@ -0,0 +1,76 @@
+import crypto from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { authenticate } from './auth';
+import { HttpError, readJsonBody, sendJson } from './http';
+import { createJsonStore } from './store';
+
+// --- GLOSSARIES ---
+// Users keep one glossary per topic and language pair. The client loads the
+// matching glossary when preparing an exercise and saves it back after editing.
+
+interface GlossaryEntry {
+    source: string;
+    target: string;
+    note: string;
+}
+
+interface GlossaryRecord {
+    id: string;
+    userId: string;
+    topic: string;
+    sourceLang: string;
+    targetLang: string;
+    entries: GlossaryEntry[];
+    updatedAt: string;
+}
+
+const MAX_GLOSSARY_ENTRIES = 2000;
+
+const glossaries = createJsonStore<GlossaryRecord[]>('glossaries', []);
+
+const normalizeTopic = (topic: string) => topic.trim().toLowerCase();
+
+const readEntries = (value: unknown): GlossaryEntry[] => {
+    if (!Array.isArray(value)) throw new HttpError(400, 'entries must be an array.');
+    if (value.length > MAX_GLOSSARY_ENTRIES) throw new HttpError(413, `A glossary may contain at most ${MAX_GLOSSARY_ENTRIES} entries.`);
+    return value.map((entry, i) => {
+        const { source, target, note = '' } = (entry ?? {}) as Record<string, unknown>;
+        if (typeof source !== 'string' || typeof target !== 'string' || typeof note !== 'string') {
+            throw new HttpError(400, `entries[${i}] needs source and target as strings.`);
+        }
+        return { source: source.trim(), target: target.trim(), note: note.trim() };
+    }).filter(entry => entry.source || entry.target);
+};
+
+export const handleListGlossaries = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user } = authenticate(req);
+    const own = glossaries.read()
+        .filter(g => g.userId === user.id)
+        .map(({ userId: _userId, ...glossary }) => glossary);
+    sendJson(res, 200, { glossaries: own });
+};
+
+/** Saves a glossary, replacing the user's glossary for the same topic and language pair. */
+export const handleSaveGlossary = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user } = authenticate(req);
+    const { topic, sourceLang, targetLang, entries } = await readJsonBody<Record<string, unknown>>(req);
+    if (typeof topic !== 'string' || typeof sourceLang !== 'string' || typeof targetLang !== 'string') {
+        throw new HttpError(400, 'topic, sourceLang and targetLang are required.');
+    }
+    const sameKey = (g: GlossaryRecord) => g.userId === user.id && normalizeTopic(g.topic) === normalizeTopic(topic)
+        && g.sourceLang === sourceLang && g.targetLang === targetLang;
+
+    const existing = glossaries.read().find(sameKey);
+    const record: GlossaryRecord = {
+        id: existing?.id ?? crypto.randomUUID(),
+        userId: user.id,
+        topic: topic.trim(),
+        sourceLang,
+        targetLang,
+        entries: readEntries(entries),
+        updatedAt: new Date().toISOString(),
+    };
+    glossaries.update(list => [...list.filter(g => !sameKey(g)), record]);
+    const { userId: _userId, ...glossary } = record;
+    sendJson(res, 200, glossary);
+};
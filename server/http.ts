@@ -0,0 +1,81 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// --- HTTP HELPERS ---
+// Minimal helpers for the API handlers. The handlers run as connect-style
+// middleware inside the Vite dev/preview server (see server/index.ts), so we
+// stay on plain node:http types instead of pulling in a framework.
+
+export class HttpError extends Error {
+    constructor(public status: number, message: string, public code?: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const readJsonBody = async <T>(req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<T> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > maxBytes) {
+            throw new HttpError(413, 'Request body too large.');
+        }
+        chunks.push(chunk as Buffer);
+    }
+    if (chunks.length === 0) {
+        return {} as T;
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf-8')) as T;
+    } catch {
+        throw new HttpError(400, 'Request body is not valid JSON.');
+    }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: unknown) => {
+    if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message, code: error.code });
+        return;
+    }
+    console.error('Unhandled API error:', error);
+    sendJson(res, 500, { error: 'Internal server error.' });
+};
+
+/**
+ * Maps a failed upstream call (Gemini, TTS, other LLM servers) to an error the
+ * client can classify: rate limits stay 429, everything else becomes a 5xx with
+ * a code that tells the client whether a retry can help.
+ */
+export const toUpstreamError = (status: number, message: string): HttpError => {
+    if (status === 429) return new HttpError(429, message, 'rate_limited');
+    if (status === 401 || status === 403) return new HttpError(502, message, 'upstream_auth');
+    if (status >= 500) return new HttpError(503, message, 'upstream_unavailable');
+    return new HttpError(502, message, 'upstream_rejected');
+};
+
+/** An AbortSignal that fires when the client goes away before we have answered. */
+export const createClientAbortSignal = (res: ServerResponse): AbortSignal => {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+    return controller.signal;
+};
+
+export const getBearerToken = (req: IncomingMessage): string | null => {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer ')) {
+        return null;
+    }
+    const token = header.slice('Bearer '.length).trim();
+    return token || null;
+};
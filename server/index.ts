@@ -0,0 +1,58 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { handleLogin, handleLogout, handleSession } from './auth';
+import { loadServerConfig } from './config';
+import { handleListExercises, handleSaveExercise } from './exercises';
+import { handleListGlossaries, handleSaveGlossary } from './glossaries';
+import { HttpError, sendError } from './http';
+import { handleGenerate, handleListVoices, handleRecognizeSpeech, handleSynthesize, handleTranscribe, handleUsage } from './proxy';
+
+// --- API ROUTER ---
+// The backend is mounted under /api as middleware of the Vite dev and preview
+// servers, so `npm run dev` brings up the client and its API together.
+
+type RouteHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+const routes: Record<string, RouteHandler> = {
+    'POST /api/auth/login': handleLogin,
+    'GET /api/auth/session': handleSession,
+    'POST /api/auth/logout': handleLogout,
+    'POST /api/ai/generate': handleGenerate,
+    'POST /api/ai/transcribe': handleTranscribe,
+    'POST /api/stt/recognize': handleRecognizeSpeech,
+    'POST /api/tts/synthesize': handleSynthesize,
+    'GET /api/tts/voices': handleListVoices,
+    'GET /api/usage': handleUsage,
+    'GET /api/exercises': handleListExercises,
+    'POST /api/exercises': handleSaveExercise,
+    'GET /api/glossaries': handleListGlossaries,
+    'PUT /api/glossaries': handleSaveGlossary,
+};
+
+export const handleApiRequest = async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const pathname = (req.url || '').split('?')[0];
+    if (!pathname.startsWith('/api/')) {
+        next();
+        return;
+    }
+    try {
+        const handler = routes[`${req.method} ${pathname}`];
+        if (!handler) throw new HttpError(404, `No route for ${req.method} ${pathname}.`);
+        await handler(req, res);
+    } catch (error) {
+        sendError(res, error);
+    }
+};
+
+export const apiServer = (env: Record<string, string | undefined>): Plugin => ({
+    name: 'dolmetsch-trainer-api',
+    configResolved() {
+        loadServerConfig(env);
+    },
+    configureServer(server) {
+        server.middlewares.use((req, res, next) => { handleApiRequest(req, res, next); });
+    },
+    configurePreviewServer(server) {
+        server.middlewares.use((req, res, next) => { handleApiRequest(req, res, next); });
+    },
+});
@@ -0,0 +1,335 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { ApiError, GoogleGenAI } from '@google/genai';
+import { getServerConfig } from './config';
+import type { AiTask, ModelRoute, ProviderName } from './config';
+import { HttpError, toUpstreamError } from './http';
+
+// --- LLM PROVIDERS ---
+// Every prompt of the app goes through one of these providers. Which provider
+// and model answer a prompt is decided per task (see LlmConfig in config.ts),
+// so e.g. punctuation can use a cheap model while feedback uses a stronger one.
+
+/** A recording sent along with the prompt, e.g. a speech to transcribe. */
+export interface AudioInput {
+    data: string; // base64
+    mimeType: string;
+    language: string; // BCP-47 locale of the speech
+}
+
+export interface GenerateRequest {
+    task: AiTask;
+    model: string;
+    prompt: string;
+    audio?: AudioInput;
+    signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+    name: ProviderName;
+    generate(request: GenerateRequest): Promise<string>;
+}
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'content_filter'];
+
+const safetyBlocked = (reason: string) =>
+    new HttpError(422, `The request was blocked by the provider's safety filter (${reason}).`, 'safety_blocked');
+
+const emptyResponse = () => new HttpError(502, 'API response did not contain text.', 'empty_response');
+
+const audioNotSupported = (provider: ProviderName) =>
+    new HttpError(501, `The ${provider} provider cannot process audio. Route the transcription task to gemini or openai.`, 'unsupported_input');
+
+const postJson = async <T>(url: string, body: unknown, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new HttpError(503, `LLM server at ${url} is not reachable: ${(error as Error).message}`, 'upstream_unavailable');
+    }
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw toUpstreamError(response.status, `LLM request to ${url} failed: ${response.status} ${errorText.slice(0, 500)}`);
+    }
+    return response.json() as Promise<T>;
+};
+
+export const createGeminiProvider = (apiKey: string): LlmProvider => {
+    let client: GoogleGenAI | null = null;
+    return {
+        name: 'gemini',
+        async generate({ model, prompt, audio, signal }) {
+            if (!apiKey) throw new HttpError(500, 'API_KEY is not configured on the server.', 'upstream_auth');
+            if (!client) client = new GoogleGenAI({ apiKey });
+            const contents = audio
+                ? [{ role: 'user', parts: [{ text: prompt }, { inlineData: { mimeType: audio.mimeType, data: audio.data } }] }]
+                : prompt;
+            let response;
+            try {
+                response = await client.models.generateContent({ model, contents, config: { abortSignal: signal } });
+            } catch (error) {
+                if (error instanceof ApiError) throw toUpstreamError(error.status, `Gemini request failed: ${error.message}`);
+                throw error;
+            }
+            const blockReason = response.promptFeedback?.blockReason;
+            if (blockReason) throw safetyBlocked(blockReason);
+            const finishReason = response.candidates?.[0]?.finishReason;
+            if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) throw safetyBlocked(finishReason);
+            const text = response.text;
+            if (text === undefined) {
+                throw emptyResponse();
+            }
+            return text;
+        },
+    };
+};
+
+// Audio goes to the Whisper-style transcription endpoint, which takes the
+// recording as multipart form data instead of a prompt. The speech recognition
+// route (server/proxy.ts) uses the same endpoint for a local Whisper server.
+// Whisper servers choose the decoder by the extension of the file name.
+const AUDIO_FILE_EXTENSIONS: Record<string, string> = {
+    'audio/mpeg': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/wav': 'wav',
+    'audio/ogg': 'ogg',
+    'audio/webm': 'webm',
+};
+
+const postTranscription = async <T>(baseUrl: string, apiKey: string, model: string, audio: AudioInput, responseFormat: 'json' | 'verbose_json', signal?: AbortSignal): Promise<T> => {
+    const extension = AUDIO_FILE_EXTENSIONS[audio.mimeType.split(';')[0].trim()] ?? 'webm';
+    const form = new FormData();
+    form.append('model', model);
+    form.append('language', audio.language.split('-')[0]);
+    form.append('response_format', responseFormat);
+    form.append('file', new Blob([Buffer.from(audio.data, 'base64')], { type: audio.mimeType }), `speech.${extension}`);
+    const url = `${baseUrl}/audio/transcriptions`;
+    let response: Response;
+    try {
+        response = await fetch(url, { method: 'POST', body: form, signal, headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {} });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new HttpError(503, `Transcription server at ${url} is not reachable: ${(error as Error).message}`, 'upstream_unavailable');
+    }
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw toUpstreamError(response.status, `Transcription request to ${url} failed: ${response.status} ${errorText.slice(0, 500)}`);
+    }
+    return response.json() as Promise<T>;
+};
+
+const transcribeWithOpenAi = async (baseUrl: string, apiKey: string, model: string, audio: AudioInput, signal?: AbortSignal) => {
+    const data = await postTranscription<{ text?: string }>(baseUrl, apiKey, model, audio, 'json', signal);
+    if (typeof data.text !== 'string') throw emptyResponse();
+    return data.text;
+};
+
+/** A stretch of recognized speech; times in seconds from the start of the recording. */
+export interface RecognizedSegment {
+    text: string;
+    start: number;
+    end: number;
+    confidence: number | null;
+}
+
+/**
+ * Recognition with segment timings. Whisper reports the average log
+ * probability of each segment's tokens, which becomes a 0..1 confidence.
+ * Servers that ignore verbose_json yield one segment without confidence
+ * and no duration (null).
+ */
+export const recognizeWithWhisper = async (baseUrl: string, apiKey: string, model: string, audio: AudioInput, signal?: AbortSignal): Promise<{ text: string; segments: RecognizedSegment[]; durationSeconds: number | null }> => {
+    const data = await postTranscription<{ text?: string; duration?: number; segments?: { text?: string; start?: number; end?: number; avg_logprob?: number }[] }>(
+        baseUrl, apiKey, model, audio, 'verbose_json', signal);
+    if (typeof data.text !== 'string') throw emptyResponse();
+    const segments = Array.isArray(data.segments)
+        ? data.segments
+            .filter(segment => typeof segment.text === 'string' && segment.text.trim())
+            .map(segment => ({
+                text: segment.text!.trim(),
+                start: segment.start ?? 0,
+                end: segment.end ?? segment.start ?? 0,
+                confidence: typeof segment.avg_logprob === 'number' ? Math.min(1, Math.exp(segment.avg_logprob)) : null,
+            }))
+        : [{ text: data.text.trim(), start: 0, end: data.duration ?? 0, confidence: null }];
+    const durationSeconds = data.duration ?? segments.reduce((end, segment) => Math.max(end, segment.end), 0);
+    return { text: data.text.trim(), segments: segments.filter(segment => segment.text), durationSeconds: durationSeconds > 0 ? durationSeconds : null };
+};
+
+/** Any server implementing the OpenAI chat completions API (OpenAI, vLLM, LM Studio, ...). */
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string): LlmProvider => ({
+    name: 'openai',
+    async generate({ model, prompt, audio, signal }) {
+        if (audio) return transcribeWithOpenAi(baseUrl, apiKey, model, audio, signal);
+        const data = await postJson<{ choices?: { message?: { content?: string }; finish_reason?: string }[] }>(
+            `${baseUrl}/chat/completions`,
+            { model, messages: [{ role: 'user', content: prompt }] },
+            signal,
+            apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        );
+        const choice = data.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw safetyBlocked(choice.finish_reason);
+        const text = choice?.message?.content;
+        if (typeof text !== 'string') {
+            throw emptyResponse();
+        }
+        return text;
+    },
+});
+
+/** A local Ollama server (or anything speaking its /api/generate protocol). */
+export const createOllamaProvider = (baseUrl: string): LlmProvider => ({
+    name: 'ollama',
+    async generate({ model, prompt, audio, signal }) {
+        if (audio) throw audioNotSupported('ollama');
+        const data = await postJson<{ response?: string }>(`${baseUrl}/api/generate`, { model, prompt, stream: false }, signal);
+        if (typeof data.response !== 'string') {
+            throw emptyResponse();
+        }
+        return data.response;
+    },
+});
+
+// --- FIXTURE PROVIDER ---
+// Deterministic answers for offline runs and demos. A file <task>.txt in
+// LLM_FIXTURE_DIR overrides the built-in answer for that task.
+
+const extractQuotedText = (prompt: string) => {
+    const match = prompt.match(/"""\s*([\s\S]*?)\s*"""/);
+    return match ? match[1] : '';
+};
+
+// Length adjustment asks for one paragraph of a numbered text; the fixture
+// hands back that paragraph unchanged (or a stock paragraph for insertions).
+const answerLengthAdjustment = (prompt: string) => {
+    if (/NEUEN Absatz/.test(prompt)) {
+        return 'Darüber hinaus dürfen wir die Rolle der Digitalisierung nicht unterschätzen. Intelligente Verkehrssteuerung und vernetzte Gebäude helfen, Ressourcen effizienter einzusetzen.';
+    }
+    const paragraphNumber = prompt.match(/NUR Absatz (\d+)/)?.[1];
+    const numberedText = extractQuotedText(prompt);
+    if (!paragraphNumber) return numberedText;
+    const match = numberedText.match(new RegExp(`\\[Absatz ${paragraphNumber}\\]\\n([\\s\\S]*?)(?:\\n\\n\\[Absatz \\d+\\]|$)`));
+    return match ? match[1] : numberedText;
+};
+
+const FIXTURE_SPEECH = `Sehr geehrte Damen und Herren,
+
+ich freue mich, heute über ein Thema sprechen zu dürfen, das uns alle betrifft: die Zukunft unserer Städte. Mehr als die Hälfte der Weltbevölkerung lebt bereits in urbanen Räumen, und bis zum Jahr 2050 werden es voraussichtlich zwei Drittel sein.
+
+Diese Entwicklung stellt uns vor große Herausforderungen. Wir brauchen bezahlbaren Wohnraum, einen leistungsfähigen öffentlichen Nahverkehr und Grünflächen, die das Stadtklima verbessern. Gleichzeitig müssen wir den Energieverbrauch der Gebäude deutlich senken.
+
+Viele Kommunen haben bereits gezeigt, dass dies möglich ist. In Kopenhagen fahren heute mehr Menschen mit dem Fahrrad zur Arbeit als mit dem Auto. In Wien lebt rund die Hälfte der Bevölkerung in geförderten Wohnungen. Solche Beispiele machen Mut.
+
+Entscheidend ist jedoch, dass die Bürgerinnen und Bürger in die Planung einbezogen werden. Nur wenn Menschen sich mit ihrem Viertel identifizieren, entstehen lebendige Nachbarschaften.
+
+Vielen Dank für Ihre Aufmerksamkeit.`;
+
+const buildFixtureDialogue = (prompt: string) => {
+    const langA = prompt.match(/Person A \(([^)]+)\)/)?.[1] ?? 'Deutsch';
+    const langB = prompt.match(/Person B \(([^)]+)\)/)?.[1] ?? 'Englisch';
+    return JSON.stringify(Array.from({ length: 12 }, (_, i) => i % 2 === 0
+        ? { type: 'Frage', text: `Frage ${i / 2 + 1}: Wie beurteilen Sie die aktuelle Lage?`, lang: langA }
+        : { type: 'Antwort', text: `Answer ${(i + 1) / 2}: The situation is improving, but slowly.`, lang: langB }));
+};
+
+const FIXTURE_FEEDBACK = {
+    contentRating: 7,
+    languageRating: 8,
+    contentSummary: 'Die wesentlichen Aussagen wurden wiedergegeben. Einzelne Zahlen fehlen.',
+    languageSummary: 'Die Zielsprache wird sicher verwendet. Das Register ist angemessen.',
+    errorAnalysis: [{
+        original: 'bis zum Jahr 2050',
+        interpretation: 'in the future',
+        suggestion: 'by 2050',
+        explanation: 'Die Jahreszahl wurde ausgelassen.',
+        type: 'Inhalt',
+    }],
+};
+
+// With a glossary the feedback prompt lists its terms as "- source → target";
+// the fixture reports the first term as used and the others as omitted. When
+// the prompt asks to rate the delivery, the fixture adds a stock rating.
+const buildFixtureFeedback = (prompt: string) => {
+    const feedback: Record<string, unknown> = { ...FIXTURE_FEEDBACK };
+    if (/Terminologieprüfung/.test(prompt)) {
+        const terms = Array.from(prompt.matchAll(/^- (.+?) → (.+)$/gm)).map(([, source, expected], i) => ({
+            source,
+            expected,
+            used: i === 0 ? expected : '',
+            status: i === 0 ? 'verwendet' : 'ausgelassen',
+            comment: '',
+        }));
+        feedback.terminology = { summary: 'Die vereinbarte Terminologie wurde teilweise verwendet.', terms };
+    }
+    if (/"delivery"/.test(prompt)) {
+        feedback.delivery = { rating: 7, summary: 'Das Sprechtempo ist angemessen. Einige Füllwörter und lange Pausen unterbrechen den Redefluss.' };
+    }
+    return JSON.stringify(feedback);
+};
+
+const FIXTURE_GLOSSARY = JSON.stringify([
+    { source: 'urbane Räume', target: 'urban areas', note: '' },
+    { source: 'bezahlbarer Wohnraum', target: 'affordable housing', note: '' },
+    { source: 'öffentlicher Nahverkehr', target: 'public transport', note: '' },
+    { source: 'geförderte Wohnungen', target: 'subsidised housing', note: 'Wiener Gemeindebau' },
+]);
+
+// The alignment prompt numbers the sentences of the original as "[n] sentence";
+// the fixture echoes them as rendered correctly and marks the second as omitted.
+const buildFixtureAlignment = (prompt: string) =>
+    JSON.stringify(Array.from(prompt.matchAll(/^\[(\d+)\] (.+)$/gm)).map(([, sentence, text], i) => i === 1
+        ? { sentence: Number(sentence), interpretation: '', status: 'Auslassung', explanation: 'Der Satz wurde nicht verdolmetscht.' }
+        : { sentence: Number(sentence), interpretation: text, status: 'korrekt', explanation: '' }));
+
+export const createFixtureProvider = (fixtureDir: string | null): LlmProvider => ({
+    name: 'fixture',
+    async generate({ task, prompt }) {
+        if (fixtureDir) {
+            const file = path.join(fixtureDir, `${task}.txt`);
+            if (fs.existsSync(file)) return fs.readFileSync(file, 'utf-8');
+        }
+        switch (task) {
+            case 'generation': return FIXTURE_SPEECH;
+            case 'dialogue': return buildFixtureDialogue(prompt);
+            case 'feedback': return buildFixtureFeedback(prompt);
+            case 'lengthAdjustment': return answerLengthAdjustment(prompt);
+            case 'punctuation': return extractQuotedText(prompt);
+            case 'glossary': return FIXTURE_GLOSSARY;
+            case 'transcription': return FIXTURE_SPEECH;
+            case 'alignment': return buildFixtureAlignment(prompt);
+        }
+    },
+});
+
+// --- ROUTING ---
+const providers = new Map<ProviderName, LlmProvider>();
+
+const getProvider = (name: ProviderName): LlmProvider => {
+    const existing = providers.get(name);
+    if (existing) return existing;
+    const { apiKey, llm } = getServerConfig();
+    const provider = {
+        gemini: () => createGeminiProvider(apiKey),
+        openai: () => createOpenAiCompatibleProvider(llm.openAiBaseUrl, llm.openAiApiKey),
+        ollama: () => createOllamaProvider(llm.ollamaBaseUrl),
+        fixture: () => createFixtureProvider(llm.fixtureDir),
+    }[name]();
+    providers.set(name, provider);
+    return provider;
+};
+
+export const resolveModelRoute = (task: AiTask): ModelRoute => {
+    const { llm } = getServerConfig();
+    return llm.taskRoutes[task] ?? llm.defaultRoute;
+};
+
+export const generateForTask = async (task: AiTask, prompt: string, signal?: AbortSignal, audio?: AudioInput): Promise<string> => {
+    const route = resolveModelRoute(task);
+    return getProvider(route.provider).generate({ task, model: route.model, prompt, audio, signal });
+};
@@ -0,0 +1,190 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { authenticate } from './auth';
+import type { UserRecord } from './auth';
+import { AI_TASKS, getServerConfig } from './config';
+import type { AiTask } from './config';
+import { HttpError, createClientAbortSignal, readJsonBody, sendJson, toUpstreamError } from './http';
+import { generateForTask, recognizeWithWhisper, resolveModelRoute } from './providers';
+import type { AudioInput } from './providers';
+import { assertWithinQuota, getDailyUsage, recordUsage } from './usage';
+
+// --- LLM & TEXT-TO-SPEECH PROXY ---
+// The client never sees the API key: it calls these routes with its session
+// token, and the key is attached here. Every call is checked against the
+// user's daily quota and written to the usage log.
+
+const MAX_PROMPT_CHARS = 60_000;
+const MAX_TTS_CHARS = 5_000;
+// Gemini accepts inline audio up to about 20 MB per request (base64 included).
+// The client derives its upload limit from this (MAX_AUDIO_REQUEST_BYTES in index.tsx).
+const MAX_AUDIO_BODY_BYTES = 20 * 1024 * 1024;
+// When the Whisper server reports no duration, recognized audio is charged by
+// size at 128 kbit/s, the usual bitrate of the browser's Opus recordings.
+const ESTIMATED_AUDIO_BYTES_PER_SECOND = 16_000;
+const TTS_ENDPOINT = 'https://texttospeech.googleapis.com/v1/text:synthesize';
+const TTS_VOICES_ENDPOINT = 'https://texttospeech.googleapis.com/v1/voices';
+const VOICE_LIST_TTL_MS = 60 * 60 * 1000;
+
+interface TtsVoice {
+    name: string;
+    languageCode: string;
+    gender: string;
+}
+
+// The voice catalogue rarely changes, so one lookup per language and hour is enough.
+const voiceListCache = new Map<string, { voices: TtsVoice[]; fetchedAt: number }>();
+
+const runAiTask = async (user: UserRecord, res: ServerResponse, task: AiTask, prompt: string, audio?: AudioInput) => {
+    assertWithinQuota(user, 'ai', 1);
+
+    const { provider, model } = resolveModelRoute(task);
+    const detail = `${task} ${provider}:${model}`;
+    const signal = createClientAbortSignal(res);
+    const startedAt = Date.now();
+    try {
+        const text = await generateForTask(task, prompt, signal, audio);
+        recordUsage(user, 'ai', { detail, inputChars: prompt.length, outputChars: text.length, durationMs: Date.now() - startedAt, ok: true });
+        sendJson(res, 200, { text });
+    } catch (error) {
+        recordUsage(user, 'ai', { detail, inputChars: prompt.length, outputChars: 0, durationMs: Date.now() - startedAt, ok: false });
+        // The client cancelled the request; there is nobody left to answer.
+        if (signal.aborted) return;
+        if (error instanceof HttpError) throw error;
+        console.error(`LLM request (${detail}) failed:`, error);
+        throw new HttpError(503, `LLM request failed: ${(error as Error).message}`, 'upstream_unavailable');
+    }
+};
+
+export const handleGenerate = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user } = authenticate(req);
+    const { prompt, task = 'generation' } = await readJsonBody<{ prompt?: unknown; task?: unknown }>(req);
+    if (typeof prompt !== 'string' || !prompt.trim()) throw new HttpError(400, 'Prompt is required.');
+    if (prompt.length > MAX_PROMPT_CHARS) throw new HttpError(413, 'Prompt is too long.');
+    if (typeof task !== 'string' || !AI_TASKS.includes(task as AiTask)) throw new HttpError(400, `Unknown task "${task}".`);
+    await runAiTask(user, res, task as AiTask, prompt);
+};
+
+/** Transcribes an uploaded recording (base64) that serves as the source speech of an exercise. */
+export const handleTranscribe = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user } = authenticate(req);
+    const { prompt, audio, mimeType, language } = await readJsonBody<Record<string, unknown>>(req, MAX_AUDIO_BODY_BYTES);
+    if (typeof prompt !== 'string' || !prompt.trim()) throw new HttpError(400, 'Prompt is required.');
+    if (prompt.length > MAX_PROMPT_CHARS) throw new HttpError(413, 'Prompt is too long.');
+    if (typeof audio !== 'string' || !audio || typeof mimeType !== 'string' || !mimeType.startsWith('audio/') || typeof language !== 'string') {
+        throw new HttpError(400, 'audio (base64), an audio mimeType and language are required.');
+    }
+    await runAiTask(user, res, 'transcription', prompt, { data: audio, mimeType, language });
+};
+
+/** Speech recognition of the learner's interpretation on a Whisper-compatible server (WHISPER_BASE_URL), with segment timings and confidence. */
+export const handleRecognizeSpeech = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user } = authenticate(req);
+    const { audio, mimeType, language } = await readJsonBody<Record<string, unknown>>(req, MAX_AUDIO_BODY_BYTES);
+    if (typeof audio !== 'string' || !audio || typeof mimeType !== 'string' || !mimeType.startsWith('audio/') || typeof language !== 'string') {
+        throw new HttpError(400, 'audio (base64), an audio mimeType and language are required.');
+    }
+    const { whisperBaseUrl, whisperModel, whisperApiKey } = getServerConfig().stt;
+    if (!whisperBaseUrl) throw new HttpError(501, 'WHISPER_BASE_URL is not configured on the server.', 'stt_not_configured');
+    // Recognition has its own quota in seconds of audio: a live interpretation
+    // sends a chunk every few seconds and would use up the AI request quota.
+    assertWithinQuota(user, 'stt', 1);
+
+    const detail = `stt whisper:${whisperModel}`;
+    const signal = createClientAbortSignal(res);
+    const startedAt = Date.now();
+    try {
+        const { text, segments, durationSeconds } = await recognizeWithWhisper(whisperBaseUrl, whisperApiKey, whisperModel, { data: audio, mimeType, language }, signal);
+        const audioSeconds = durationSeconds ?? Math.max(1, Math.round(audio.length * 3 / 4 / ESTIMATED_AUDIO_BYTES_PER_SECOND));
+        recordUsage(user, 'stt', { detail, inputChars: 0, outputChars: text.length, durationMs: Date.now() - startedAt, audioSeconds, ok: true });
+        sendJson(res, 200, { text, segments });
+    } catch (error) {
+        recordUsage(user, 'stt', { detail, inputChars: 0, outputChars: 0, durationMs: Date.now() - startedAt, ok: false });
+        if (signal.aborted) return;
+        throw error;
+    }
+};
+
+export const handleSynthesize = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user } = authenticate(req);
+    const { text, ssml, languageCode, voiceName } = await readJsonBody<{ text?: unknown; ssml?: unknown; languageCode?: unknown; voiceName?: unknown }>(req);
+    // SSML is sent instead of plain text for voices that support it.
+    const input = typeof ssml === 'string' ? ssml : text;
+    if (typeof input !== 'string' || !input.trim()) throw new HttpError(400, 'Text or SSML is required.');
+    if (typeof ssml === 'string' && !/^<speak>[\s\S]*<\/speak>$/.test(ssml.trim())) throw new HttpError(400, 'SSML must be enclosed in <speak>.');
+    if (input.length > MAX_TTS_CHARS) throw new HttpError(413, `Text exceeds ${MAX_TTS_CHARS} characters.`);
+    if (typeof languageCode !== 'string' || typeof voiceName !== 'string') throw new HttpError(400, 'languageCode and voiceName are required.');
+    assertWithinQuota(user, 'tts', input.length);
+
+    const { ttsApiKey } = getServerConfig();
+    if (!ttsApiKey) throw new HttpError(500, 'TTS_API_KEY is not configured on the server.', 'upstream_auth');
+
+    const signal = createClientAbortSignal(res);
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+        response = await fetch(TTS_ENDPOINT, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Goog-Api-Key': ttsApiKey },
+            body: JSON.stringify({
+                input: typeof ssml === 'string' ? { ssml } : { text },
+                voice: { languageCode, name: voiceName },
+                audioConfig: { audioEncoding: 'MP3' },
+            }),
+            signal,
+        });
+    } catch (error) {
+        if (signal.aborted) return;
+        throw new HttpError(503, `Text-to-Speech is not reachable: ${(error as Error).message}`, 'upstream_unavailable');
+    }
+    const logEntry = { detail: voiceName, inputChars: input.length, durationMs: Date.now() - startedAt };
+    if (!response.ok) {
+        const errorText = await response.text();
+        recordUsage(user, 'tts', { ...logEntry, outputChars: 0, ok: false });
+        console.error('Speech synthesis failed:', response.status, errorText);
+        throw toUpstreamError(response.status, `Speech synthesis failed: ${response.status}`);
+    }
+    const data = await response.json() as { audioContent: string };
+    recordUsage(user, 'tts', { ...logEntry, outputChars: data.audioContent.length, ok: true });
+    sendJson(res, 200, { audioContent: data.audioContent });
+};
+
+/** Lists the Text-to-Speech voices of a language, e.g. "en" for all English variants. */
+export const handleListVoices = async (req: IncomingMessage, res: ServerResponse) => {
+    authenticate(req);
+    const languageCode = new URL(req.url || '', 'http://localhost').searchParams.get('languageCode') ?? '';
+    if (!/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(languageCode)) throw new HttpError(400, 'A valid languageCode is required.');
+
+    const cached = voiceListCache.get(languageCode);
+    if (cached && Date.now() - cached.fetchedAt < VOICE_LIST_TTL_MS) {
+        sendJson(res, 200, { voices: cached.voices });
+        return;
+    }
+    const { ttsApiKey } = getServerConfig();
+    if (!ttsApiKey) throw new HttpError(500, 'TTS_API_KEY is not configured on the server.', 'upstream_auth');
+
+    let response: Response;
+    try {
+        response = await fetch(`${TTS_VOICES_ENDPOINT}?languageCode=${encodeURIComponent(languageCode)}`, {
+            headers: { 'X-Goog-Api-Key': ttsApiKey },
+            signal: createClientAbortSignal(res),
+        });
+    } catch (error) {
+        if (res.destroyed) return;
+        throw new HttpError(503, `Text-to-Speech is not reachable: ${(error as Error).message}`, 'upstream_unavailable');
+    }
+    if (!response.ok) {
+        console.error('Listing voices failed:', response.status, await response.text());
+        throw toUpstreamError(response.status, `Listing voices failed: ${response.status}`);
+    }
+    const data = await response.json() as { voices?: { name: string; languageCodes: string[]; ssmlGender: string }[] };
+    const voices = (data.voices ?? [])
+        .map(voice => ({ name: voice.name, languageCode: voice.languageCodes[0], gender: voice.ssmlGender }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    voiceListCache.set(languageCode, { voices, fetchedAt: Date.now() });
+    sendJson(res, 200, { voices });
+};
+
+export const handleUsage = async (req: IncomingMessage, res: ServerResponse) => {
+    const { user } = authenticate(req);
+    sendJson(res, 200, { usage: getDailyUsage(user.id), quotas: getServerConfig().quotas });
+};
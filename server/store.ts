@@ -0,0 +1,52 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// --- JSON FILE STORE ---
+// Tiny persistence layer for the development backend. Each collection lives in
+// its own JSON file under DATA_DIR (default: ./.data) and is rewritten
+// atomically on every change. Reads always go to disk so that changes made by
+// the account CLI (server/cli.ts) are picked up by a running dev server.
+
+const DATA_DIR = path.resolve(process.env.DATA_DIR || '.data');
+
+export interface JsonStore<T> {
+    read(): T;
+    write(data: T): void;
+    update(mutator: (data: T) => T): T;
+}
+
+export const createJsonStore = <T>(name: string, initial: T): JsonStore<T> => {
+    const file = path.join(DATA_DIR, `${name}.json`);
+
+    const read = (): T => {
+        try {
+            return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            return structuredClone(initial);
+        }
+    };
+
+    const write = (data: T) => {
+        fs.mkdirSync(DATA_DIR, { recursive: true });
+        const tmpFile = `${file}.tmp`;
+        fs.writeFileSync(tmpFile, JSON.stringify(data, null, 2));
+        fs.renameSync(tmpFile, file);
+    };
+
+    const update = (mutator: (data: T) => T): T => {
+        const next = mutator(read());
+        write(next);
+        return next;
+    };
+
+    return { read, write, update };
+};
+
+/** Appends one entry to an append-only JSON Lines log under DATA_DIR. */
+export const appendJsonLine = (name: string, entry: unknown) => {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    fs.appendFileSync(path.join(DATA_DIR, `${name}.jsonl`), `${JSON.stringify(entry)}\n`);
+};
@@ -0,0 +1,86 @@
+import type { UserRecord } from './auth';
+import { getServerConfig } from './config';
+import { HttpError } from './http';
+import { appendJsonLine, createJsonStore } from './store';
+
+// --- USAGE & QUOTAS ---
+// Per-user daily counters for the proxied APIs plus an append-only usage log
+// (.data/usage.jsonl) for instructors.
+
+export type UsageKind = 'ai' | 'tts' | 'stt';
+
+export interface DailyUsage {
+    aiRequests: number;
+    ttsCharacters: number;
+    /** Seconds of audio recognized by the Whisper server. */
+    sttSeconds: number;
+}
+
+interface UsageLogEntry {
+    time: string;
+    userId: string;
+    userName: string;
+    kind: UsageKind;
+    detail: string;
+    inputChars: number;
+    outputChars: number;
+    durationMs: number;
+    audioSeconds?: number;
+    ok: boolean;
+}
+
+type UsageByDay = Record<string, Record<string, DailyUsage>>;
+
+const USAGE_RETENTION_DAYS = 31;
+
+const usage = createJsonStore<UsageByDay>('usage', {});
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyUsage = (): DailyUsage => ({ aiRequests: 0, ttsCharacters: 0, sttSeconds: 0 });
+
+// Counters stored before a kind existed lack its field.
+const readUsage = (stored: DailyUsage | undefined): DailyUsage => ({ ...emptyUsage(), ...stored });
+
+export const getDailyUsage = (userId: string): DailyUsage => readUsage(usage.read()[today()]?.[userId]);
+
+/**
+ * Throws a 429 if the request would take the user over today's quota. The
+ * length of recognized audio is only known afterwards, so 'stt' requests pass
+ * a lower bound and the last chunk of the day may overshoot the limit.
+ */
+export const assertWithinQuota = (user: UserRecord, kind: UsageKind, amount: number) => {
+    const { quotas } = getServerConfig();
+    const current = getDailyUsage(user.id);
+    if (kind === 'ai' && current.aiRequests + amount > quotas.aiRequestsPerDay) {
+        throw new HttpError(429, `Tageslimit für KI-Anfragen erreicht (${quotas.aiRequestsPerDay}). Bitte versuchen Sie es morgen erneut.`, 'quota_exceeded');
+    }
+    if (kind === 'tts' && current.ttsCharacters + amount > quotas.ttsCharactersPerDay) {
+        throw new HttpError(429, `Tageslimit für die Sprachausgabe erreicht (${quotas.ttsCharactersPerDay} Zeichen). Bitte versuchen Sie es morgen erneut.`, 'quota_exceeded');
+    }
+    if (kind === 'stt' && current.sttSeconds + amount > quotas.sttSecondsPerDay) {
+        throw new HttpError(429, `Tageslimit für die Spracherkennung erreicht (${Math.round(quotas.sttSecondsPerDay / 60)} Minuten Audio). Bitte versuchen Sie es morgen erneut.`, 'quota_exceeded');
+    }
+};
+
+export const recordUsage = (
+    user: UserRecord,
+    kind: UsageKind,
+    entry: { detail: string; inputChars: number; outputChars: number; durationMs: number; audioSeconds?: number; ok: boolean },
+) => {
+    if (entry.ok) {
+        const day = today();
+        usage.update(byDay => {
+            const cutoff = new Date(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+            const pruned = Object.fromEntries(Object.entries(byDay).filter(([d]) => d >= cutoff));
+            const dayUsage = pruned[day] ?? {};
+            const current = readUsage(dayUsage[user.id]);
+            dayUsage[user.id] = kind === 'ai' ? { ...current, aiRequests: current.aiRequests + 1 }
+                : kind === 'tts' ? { ...current, ttsCharacters: current.ttsCharacters + entry.inputChars }
+                : { ...current, sttSeconds: current.sttSeconds + (entry.audioSeconds ?? 0) };
+            return { ...pruned, [day]: dayUsage };
+        });
+    }
+    const logEntry: UsageLogEntry = { time: new Date().toISOString(), userId: user.id, userName: user.name, kind, ...entry };
+    appendJsonLine('usage', logEntry);
+};
@@ -1,6 +1,7 @@
 /// <reference types="node" />
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { apiServer } from './server/index'
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -8,9 +9,8 @@ export default defineConfig(({ mode }) => {
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, process.cwd(), '');
   return {
-    plugins: [react()],
-    define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
-    },
+    // The API key is only handed to the backend plugin; it is deliberately not
+    // exposed to client code.
+    plugins: [react(), apiServer(env)],
   }
 })